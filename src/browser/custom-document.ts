@@ -0,0 +1,153 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    CustomDocumentEdit,
+    CustomDocumentSnapshot,
+    TextDocumentChangeEventDto,
+    TextDocumentContentChangeDto,
+    TextDocumentDto
+} from '../common/plugin-common';
+
+/**
+ * Change of the document of a custom editor.
+ */
+export interface CustomDocumentChangeEvent {
+    /**
+     * Changes in the order they are applied, empty if only the dirty state changed, e.g. when the document is saved.
+     */
+    contentChanges: TextDocumentContentChangeDto[];
+    version: number;
+    isDirty: boolean;
+
+    /**
+     * Set if the change undoes or redoes an edit.
+     */
+    reason?: 'undo' | 'redo';
+}
+
+// values of TextDocumentChangeReason
+const changeReasons: { [reason: number]: 'undo' | 'redo' } = { 1: 'undo', 2: 'redo' };
+
+/**
+ * Document of the custom editor the page is opened in, a copy of the text document of the plugin kept in sync with it.
+ * The page edits the document with applyEdit, the text changes once the plugin has applied the edit.
+ */
+export class CustomDocumentModel {
+    private document: TextDocumentDto;
+    private text: string;
+    private listeners: ((event: CustomDocumentChangeEvent) => void)[] = [];
+
+    /**
+     * @param call calls a function of the plugin with the id of the page as first argument
+     */
+    constructor(
+        snapshot: CustomDocumentSnapshot,
+        private readonly call: (func: string, ...args: any[]) => Promise<any>
+    ) {
+        this.document = snapshot.document;
+        this.text = snapshot.text;
+    }
+
+    get uri(): string {
+        return this.document.uri.external;
+    }
+
+    get fileName(): string {
+        return this.document.fileName;
+    }
+
+    get languageId(): string {
+        return this.document.languageId;
+    }
+
+    get version(): number {
+        return this.document.version;
+    }
+
+    get isDirty(): boolean {
+        return this.document.isDirty;
+    }
+
+    getText(): string {
+        return this.text;
+    }
+
+    /**
+     * Apply the edits as one undo step, offsets refer to the text before any edit.
+     * @returns false if the plugin could not apply the edits
+     */
+    applyEdit(edits: CustomDocumentEdit | CustomDocumentEdit[]): Promise<boolean> {
+        return this.call('plugin.customEditor.applyEdit', Array.isArray(edits) ? edits : [edits]);
+    }
+
+    /**
+     * Replace the whole text of the document.
+     */
+    setText(text: string): Promise<boolean> {
+        return this.applyEdit({ offset: 0, length: this.text.length, text });
+    }
+
+    save(): Promise<boolean> {
+        return this.call('plugin.customEditor.save');
+    }
+
+    /**
+     * Discard the unsaved changes of the document.
+     */
+    revert(): Promise<void> {
+        return this.call('plugin.customEditor.execute', 'revert');
+    }
+
+    undo(): Promise<void> {
+        return this.call('plugin.customEditor.execute', 'undo');
+    }
+
+    redo(): Promise<void> {
+        return this.call('plugin.customEditor.execute', 'redo');
+    }
+
+    /**
+     * Listen to changes of the text or the dirty state, whether made by the page, another editor, undo or redo.
+     */
+    onDidChange(listener: (event: CustomDocumentChangeEvent) => void): { dispose(): void } {
+        this.listeners.push(listener);
+        return {
+            dispose: () => {
+                this.listeners = this.listeners.filter((registered) => registered !== listener);
+            }
+        };
+    }
+
+    /**
+     * Apply a change of the text document sent by the plugin.
+     */
+    applyChange(event: TextDocumentChangeEventDto): void {
+        // changes already included in the snapshot the page got, a save changes no text and keeps the version
+        if (
+            event.document.version < this.document.version ||
+            (event.contentChanges.length > 0 && event.document.version === this.document.version)
+        ) {
+            return;
+        }
+        event.contentChanges.forEach((change) => {
+            this.text =
+                this.text.substring(0, change.rangeOffset) +
+                change.text +
+                this.text.substring(change.rangeOffset + change.rangeLength);
+        });
+        this.document = event.document;
+        const changeEvent: CustomDocumentChangeEvent = {
+            contentChanges: event.contentChanges,
+            version: event.document.version,
+            isDirty: event.document.isDirty
+        };
+        if (event.reason && changeReasons[event.reason]) {
+            changeEvent.reason = changeReasons[event.reason];
+        }
+        this.listeners.forEach((listener) => listener(changeEvent));
+    }
+}
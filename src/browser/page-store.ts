@@ -0,0 +1,92 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { JsonPatchOperation, diff } from '../common/json-patch';
+import { ObservableStore, StoreChangeEvent, StoreSnapshot } from '../common/store';
+
+/**
+ * Copy of a store of the plugin, see Plugin.createStore.
+ * The page changes the store with setState, the state changes once the plugin has applied the change.
+ */
+export class PageStore<T = any> {
+    private readonly copy: ObservableStore<T>;
+    private versionWaiters: { version: number; resolve: () => void }[] = [];
+
+    /**
+     * @param request makes a store request to the plugin with the name of the store
+     * @param reportError report a listener of the store that failed
+     */
+    constructor(
+        readonly name: string,
+        snapshot: StoreSnapshot<T>,
+        private readonly request: (
+            request: 'snapshot' | 'patch',
+            patch?: JsonPatchOperation[],
+            baseVersion?: number
+        ) => Promise<any>,
+        reportError: (message: string) => void
+    ) {
+        this.copy = new ObservableStore(name, snapshot, reportError);
+        this.copy.onDidChange((event) => {
+            const reached = this.versionWaiters.filter((waiter) => waiter.version <= event.version);
+            this.versionWaiters = this.versionWaiters.filter((waiter) => waiter.version > event.version);
+            reached.forEach((waiter) => waiter.resolve());
+        });
+    }
+
+    get state(): T {
+        return this.copy.state;
+    }
+
+    get version(): number {
+        return this.copy.version;
+    }
+
+    /**
+     * Change the store of the plugin.
+     * If the store changed since the copy was last updated, the copy is updated and the change is made again on it.
+     * @param update new state, or function that returns the new state from the current one without changing it
+     * @returns resolved once the page copy includes the change
+     */
+    async setState(update: T | ((state: T) => T)): Promise<void> {
+        const state = typeof update === 'function' ? (update as (state: T) => T)(this.copy.state) : update;
+        const patch = diff(this.copy.state, state);
+        if (patch.length === 0) {
+            return;
+        }
+        const version: number | undefined = await this.request('patch', patch, this.copy.version);
+        if (version === undefined) {
+            await this.resync();
+            return this.setState(update);
+        }
+        if (version > this.copy.version) {
+            await new Promise<void>((resolve) => this.versionWaiters.push({ version, resolve }));
+        }
+    }
+
+    /**
+     * Listen to changes of the store, whether made by the plugin, this page or other pages.
+     */
+    onDidChange(listener: (event: StoreChangeEvent<T>) => void): { dispose(): void } {
+        return this.copy.onDidChange(listener);
+    }
+
+    /**
+     * Apply a change of the store sent by the plugin, the copy is replaced with a snapshot if changes were missed.
+     */
+    async applyChange(patch: JsonPatchOperation[], version: number): Promise<void> {
+        if (!this.copy.applyPatch(patch, version)) {
+            await this.resync();
+        }
+    }
+
+    /**
+     * Replace the copy with the current state of the store of the plugin.
+     */
+    async resync(): Promise<void> {
+        this.copy.reset(await this.request('snapshot'));
+    }
+}
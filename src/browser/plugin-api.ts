@@ -9,21 +9,61 @@ declare let acquireVsCodeApi: any;
 declare let acquireCloudidePluginApi: any;
 import { DialogOptions, MenuItem } from '@codearts/plugin';
 import { Deferred, IframeLike, exposable, expose, messaging, Messaging } from '@cloudide/messaging';
-import { WebviewOptions, LogLevel } from '../common/plugin-common';
-import { format } from '@cloudide/nls/lib/common/common';
+import {
+    WebviewOptions,
+    LogLevel,
+    LogFields,
+    EventType,
+    EventHandler,
+    SubscribeOptions,
+    PersistedWebviewState,
+    WebviewViewInfo,
+    TextDocumentChangeEventDto,
+    I18nData,
+    ThemeInfo,
+    ThemeKind,
+    PageCommandOptions
+} from '../common/plugin-common';
+import { RemoteApi, createRemoteApi } from '../common/remote-api';
+import { CallOptions, RemoteCancellation } from '../common/cancellation';
+import { RemoteStreams } from '../common/remote-stream';
+import { formatMessage, lookupMessage } from '../common/message-format';
+import { LifecycleEvent, LifecycleManager } from '../common/lifecycle';
+import { Injector } from '../common/injection';
+import { CustomDocumentModel } from './custom-document';
+import { PageStore } from './page-store';
+import { JsonPatchOperation } from '../common/json-patch';
 
 /**
  * Default API declaration of plugin page
  */
 interface CloudidePluginApi {
     getViewType: () => string;
+    getInstanceId?: () => string;
     getExtData: () => any;
-    getI18n: () => { locale: string; l10n: any };
+    getI18n: () => I18nData;
     getExtensionPath: () => string;
+    getWebviewOptions?: () => WebviewOptions | null;
+    getThemeKind?: () => ThemeKind;
+    getResourceBaseUri?: () => string | undefined;
+    onCspViolation?: (listener: (violation: CspViolation) => void) => void;
+}
+
+/**
+ * Content-Security-Policy violation reported by the page in debug mode.
+ */
+interface CspViolation {
+    blockedURI: string;
+    violatedDirective: string;
+    sourceFile?: string;
+    lineNumber?: number;
 }
 
 const cloudidePluginApi: CloudidePluginApi = acquireCloudidePluginApi();
 
+// identifies the page in messaging, pages of the same view type have different instance ids
+const pageInstanceId = cloudidePluginApi.getInstanceId?.() || cloudidePluginApi.getViewType();
+
 /**
  * Defines abstract frontend class that all frontend must extend.
  * A frontend is a program that runs within a web browser.
@@ -58,13 +98,62 @@ export abstract class AbstractFrontend {
      * Called before plugin stops.
      */
     abstract stop(): void;
+
+    /**
+     * Name of the frontend in its log records, class names cannot be used as they are changed by minifiers.
+     */
+    protected readonly frontendName?: string;
+
+    /**
+     * Log to backend, the record is tagged with the view type and the frontendName of the frontend.
+     * @param level log level
+     * @param message log message
+     * @param fields structured fields of the record
+     */
+    protected log(level: LogLevel, message: string, fields?: LogFields): Promise<void> {
+        return this.plugin.log(level, message, this.frontendName ? { ...fields, frontend: this.frontendName } : fields);
+    }
+}
+
+// levels of the captured console methods
+const consoleLevels: { [method: string]: LogLevel } = {
+    debug: LogLevel.DEBUG,
+    log: LogLevel.INFO,
+    info: LogLevel.INFO,
+    warn: LogLevel.WARN,
+    error: LogLevel.ERROR
+};
+
+function formatConsoleArg(arg: any): string {
+    if (typeof arg === 'string') {
+        return arg;
+    }
+    if (arg instanceof Error) {
+        return arg.stack || arg.message;
+    }
+    try {
+        return JSON.stringify(arg);
+    } catch (e) {
+        return String(arg);
+    }
 }
 
 interface IFrontendConstructor<T> extends Function {
-    new (plugin: PluginPage): T;
+    // parameters after plugin are injected
+    new (plugin: PluginPage, ...injected: any[]): T;
 }
 
 const backendClientIdentifier = 'backend';
+const remoteCancellation = new RemoteCancellation();
+const remoteStreams = new RemoteStreams();
+
+/**
+ * Event handler registered by subscribeEvent, handlers subscribed with options have their own subscription id.
+ */
+interface RegisteredEventHandler {
+    handler: (eventType: string, event: any) => void;
+    subscriptionId?: string;
+}
 
 /**
  * Defines an object to provide CloudIDE API.
@@ -76,14 +165,58 @@ export class PluginPage {
     private readonly domInitialized: Deferred<boolean> = new Deferred<boolean>();
     private readonly isReady: Deferred<boolean> = new Deferred<boolean>();
     private pluginPageContext: PluginPageContext;
-    private registeredEventHandlers: Map<string, ((eventType: string, event: any) => void)[]> = new Map();
+    private registeredEventHandlers: Map<string, RegisteredEventHandler[]> = new Map();
+    private subscriptionSequence = 0;
+
+    /**
+     * Timeout in milliseconds of calls that do not specify one, calls wait forever if not defined.
+     */
+    public defaultCallTimeout?: number;
     private extensionPath?: string;
     private frontends: Map<IFrontendConstructor<AbstractFrontend>, AbstractFrontend> = new Map();
+    // the page holds both singleton and page scoped services
+    private readonly injector: Injector = new Injector(undefined, true);
+    private readonly lifecycle: LifecycleManager = new LifecycleManager((component, phase, error) => {
+        this.log(LogLevel.ERROR, `failed to ${phase} ${component}: ${error?.message || error}`, {
+            frontend: component
+        });
+    });
     private registeredContextMenu: Map<Document | HTMLElement, (e: any) => void> = new Map();
+    private i18n?: I18nData;
+    private readonly reportedMissingKeys: Set<string> = new Set();
+    private localeChangeListeners: ((locale: string) => void)[] = [];
+    private _visible = true;
+    private visibilityChangeListeners: ((visible: boolean) => void)[] = [];
+    private customDocument?: Promise<CustomDocumentModel>;
+    private customDocumentModel?: CustomDocumentModel;
+    private channelHandlers: Map<string, ((data: any, publisher: string) => void)[]> = new Map();
+    private stores: Map<string, Promise<PageStore>> = new Map();
+    private themeKind: ThemeKind;
+    private themeChangeListeners: ((theme: ThemeInfo) => void)[] = [];
+    private commandHandlers: Map<string, (...args: any[]) => any> = new Map();
     private constructor(pluginPageContext: PluginPageContext, frontends: IFrontendConstructor<AbstractFrontend>[]) {
         this.pluginPageContext = pluginPageContext;
         this.cloudidePluginApi = cloudidePluginApi;
         this.extensionPath = this.cloudidePluginApi.getExtensionPath();
+        this.i18n = this.cloudidePluginApi.getI18n();
+        this.themeKind = this.cloudidePluginApi.getThemeKind?.() || 'light';
+        this.applyThemeClass(this.themeKind);
+        // the plugin revives the panel with the options it registered, only the view type is checked against the state
+        this.pluginPageContext.setState({
+            ...this.pluginPageContext.getState(),
+            viewType: this.cloudidePluginApi.getViewType()
+        });
+        const webviewOptions = this.cloudidePluginApi.getWebviewOptions?.();
+        if (webviewOptions?.captureConsole) {
+            this.captureConsole();
+        }
+        this.cloudidePluginApi.onCspViolation?.((violation) => {
+            const source = violation.sourceFile ? ` in ${violation.sourceFile}:${violation.lineNumber}` : '';
+            this.log(
+                LogLevel.WARN,
+                `Content-Security-Policy violation: ${violation.violatedDirective} blocked ${violation.blockedURI}${source}`
+            );
+        });
         // remove duplicates from the frontend list
         frontends = [...new Set(frontends)];
         const doc = this.pluginPageContext.window.document;
@@ -118,7 +251,7 @@ export class PluginPage {
     }
 
     private async syncInitializedStatus() {
-        this._call('plugin.onPageInit', cloudidePluginApi.getViewType(), true)
+        this._call('plugin.onPageInit', pageInstanceId, true)
             .then((value) => {
                 this.isReady.resolve(value);
             })
@@ -139,23 +272,40 @@ export class PluginPage {
 
     private async initApi(plugin: PluginPage, frontends: IFrontendConstructor<AbstractFrontend>[]) {
         frontends.push(DefaultPageApi);
+        this.injector.bind(PluginPage, plugin);
+        // bind all frontends before creating any, so that frontends can be injected into each other
+        frontends.forEach((frontendClass) => this.injector.bindClass(frontendClass, [plugin]));
         frontends.forEach((frontendClass) => {
             if (!this.frontends.get(frontendClass)) {
-                const frontendInstance = new frontendClass(plugin);
-                this.frontends.set(frontendClass, frontendInstance);
+                try {
+                    const frontendInstance = this.injector.get(frontendClass);
+                    this.frontends.set(frontendClass, frontendInstance);
+                    this.lifecycle.add(frontendClass, frontendInstance, this.injector.getDependencies(frontendClass));
+                } catch (e) {
+                    this.log(LogLevel.ERROR, `failed to create ${frontendClass.name}: ${(<any>e).message}`, {
+                        frontend: frontendClass.name
+                    });
+                }
             }
         });
-        const initPromises = [];
-        const iterator = this.frontends.values();
-        let frontendInstance: IteratorResult<AbstractFrontend>;
-        while (((frontendInstance = iterator.next()), !frontendInstance.done)) {
-            initPromises.push(frontendInstance.value.init());
-        }
-        await Promise.all(initPromises);
-        await this.ready();
-        this.frontends.forEach((frontendInstance) => {
-            frontendInstance.run();
-        });
+        // frontends are stopped when the page is unloaded, e.g. when the panel is disposed
+        this.pluginPageContext.window.addEventListener('unload', () => this.lifecycle.stop());
+        await this.lifecycle.start(() => this.ready());
+    }
+
+    /**
+     * Listen to frontends being initialized, run, stopped or failing.
+     * Frontends declare the frontends they depend on with @dependsOn.
+     */
+    public onDidChangeLifecycle(listener: (event: LifecycleEvent) => void): { dispose(): void } {
+        return this.lifecycle.onDidChangePhase(listener);
+    }
+
+    /**
+     * Resolved when the page is ready and the frontends have been run, failed frontends included.
+     */
+    public whenStarted(): Promise<void> {
+        return this.lifecycle.started;
     }
 
     /**
@@ -171,6 +321,17 @@ export class PluginPage {
         return this.instance;
     }
 
+    /**
+     * State of the page that persists across reloads and IDE restarts, must be serializable.
+     */
+    public get state(): any {
+        return this.pluginPageContext.getState()?.pageState;
+    }
+
+    public set state(pageState: any) {
+        this.pluginPageContext.setState({ ...this.pluginPageContext.getState(), pageState });
+    }
+
     /**
      * Return plugin page API object, call it after calling craete
      */
@@ -182,8 +343,16 @@ export class PluginPage {
      * Return frontend object initialized by plugin
      * @param frontendClass Class definition of front class
      */
-    public getFrontend(frontendClass: IFrontendConstructor<AbstractFrontend>): AbstractFrontend | undefined {
-        return this.frontends.get(frontendClass);
+    public getFrontend<T extends AbstractFrontend>(frontendClass: IFrontendConstructor<T>): T | undefined {
+        return this.frontends.get(frontendClass) as T | undefined;
+    }
+
+    /**
+     * Return the instance of an injectable service, created when it is got the first time.
+     * @param serviceClass class decorated with @injectable
+     */
+    public getService<T>(serviceClass: new (...args: any[]) => T): T {
+        return this.injector.get(serviceClass);
     }
 
     /**
@@ -197,35 +366,315 @@ export class PluginPage {
      * Pass events to registeredEventHandlers
      * @param eventType unique type of event
      * @param event event object
+     * @param subscriptionId the subscription the event is delivered for, handlers without options if not defined
      */
-    public onEvent(eventType: string, event: any): void {
+    public onEvent(eventType: string, event: any, subscriptionId?: string): void {
         const eventHandlers = this.registeredEventHandlers.get(eventType);
         if (eventHandlers) {
             eventHandlers.forEach((eventHandler) => {
-                eventHandler(eventType, event);
+                if (eventHandler.subscriptionId === (subscriptionId || undefined)) {
+                    eventHandler.handler(eventType, event);
+                }
             });
         }
     }
 
     /**
-     * Return localized messaging according to the locale config
+     * Return localized messaging according to the locale config.
+     * Messages are formatted in ICU MessageFormat style, the key is returned if the message is missing.
      * @param key key configuration stored in package.nls.*.json
+     * @param args positional values, or a single object of named values
      */
     public localize(key: string, ...args: any[]): string {
-        const message = this.cloudidePluginApi.getI18n()?.l10n[key];
-        if (!message) {
-            return '';
+        const locale = this.i18n?.locale || 'en';
+        // pages rendered by older plugins only have the merged messages
+        const tables = this.i18n?.tables || [{ locale, l10n: this.i18n?.l10n || {} }];
+        const found = lookupMessage(tables, key);
+        if (!found) {
+            if (!this.reportedMissingKeys.has(`${locale}::${key}`)) {
+                this.reportedMissingKeys.add(`${locale}::${key}`);
+                this.log(LogLevel.WARN, `missing localized message ${key} for locale ${locale}`);
+            }
+            return key;
         }
-        return format(message, args);
+        return formatMessage(found.message, args, found.locale);
     }
 
     /**
-     * Make a function call to frontend.
+     * Identifier of this page among the pages of its view type, calls to 'instanceId::function' reach only this page.
+     */
+    public get instanceId(): string {
+        return pageInstanceId;
+    }
+
+    /**
+     * Return the instance ids of the open pages of the view type.
+     */
+    public async getInstances(viewType: string): Promise<string[]> {
+        return this.call('plugin.getInstances', viewType);
+    }
+
+    /**
+     * Call a function on every open page of a view type.
      * @param identifier remote function with the format of 'viewType::function-id'
+     * @returns results of the pages in the order of getInstances
+     */
+    public async broadcast(identifier: string, ...args: any[]): Promise<any[]> {
+        const [viewType, func] = identifier.split('::');
+        const instances = await this.getInstances(viewType);
+        return Promise.all(instances.map((instanceId) => this.call(`${instanceId}::${func}`, ...args)));
+    }
+
+    /**
+     * Publish a message on a named channel, it reaches the pages and the plugin backends subscribed to the channel.
+     * Unlike broadcast, the page does not need to know which pages are interested in the message.
+     */
+    public async publish(channel: string, data: any): Promise<void> {
+        await this.call('plugin.channel', pageInstanceId, 'publish', channel, data);
+    }
+
+    /**
+     * Receive the messages published on a named channel by other pages and by the plugin.
+     * @param handler called with the message and the instance id of the page that published it, 'backend' for the plugin
+     */
+    public async subscribe(
+        channel: string,
+        handler: (data: any, publisher: string) => void
+    ): Promise<{ dispose(): Promise<void> }> {
+        const handlers = this.channelHandlers.get(channel) || [];
+        this.channelHandlers.set(channel, [...handlers, handler]);
+        if (handlers.length === 0) {
+            await this.call('plugin.channel', pageInstanceId, 'subscribe', channel);
+        }
+        return {
+            dispose: async () => {
+                const remaining = (this.channelHandlers.get(channel) || []).filter(
+                    (registered) => registered !== handler
+                );
+                if (remaining.length > 0) {
+                    this.channelHandlers.set(channel, remaining);
+                    return;
+                }
+                if (this.channelHandlers.delete(channel)) {
+                    await this.call('plugin.channel', pageInstanceId, 'unsubscribe', channel);
+                }
+            }
+        };
+    }
+
+    /**
+     * Called by the plugin with a message published on a channel the page subscribed to.
+     */
+    public onChannelMessage(channel: string, data: any, publisher: string): void {
+        (this.channelHandlers.get(channel) || []).forEach((handler) => {
+            try {
+                handler(data, publisher);
+            } catch (e) {
+                this.log(LogLevel.ERROR, `failed to handle message of channel ${channel}: ${(<any>e).message}`);
+            }
+        });
+    }
+
+    /**
+     * Return the copy of a store created by the plugin with Plugin.createStore, kept in sync with the store.
+     * @example
+     * ```
+     *     const tasks = await plugin.useStore<TaskState>('tasks');
+     *     tasks.onDidChange(({ state }) => render(state.items));
+     * ```
+     */
+    public useStore<T = any>(name: string): Promise<PageStore<T>> {
+        let store = this.stores.get(name);
+        if (!store) {
+            const request = (storeRequest: string, ...args: any[]) =>
+                this.call('plugin.store', pageInstanceId, storeRequest, name, ...args);
+            store = request('subscribe').then((snapshot) => {
+                const pageStore = new PageStore(name, snapshot, request, (message) =>
+                    this.log(LogLevel.ERROR, message)
+                );
+                // changes sent while the page is initialized may be missed
+                if (this.isReady.isPending) {
+                    this.isReady.promise.then(() => pageStore.resync());
+                }
+                return pageStore;
+            });
+            this.stores.set(name, store);
+            // let the page try again, e.g. if the plugin has not created the store yet
+            store.catch(() => this.stores.delete(name));
+        }
+        return store;
+    }
+
+    /**
+     * Called by the plugin when a store used by the page changes.
+     */
+    public async onStoreChange(name: string, patch: JsonPatchOperation[], version: number): Promise<void> {
+        const store = await this.stores.get(name);
+        await store?.applyChange(patch, version);
+    }
+
+    /**
+     * Return the current locale of the plugin.
+     */
+    public get locale(): string {
+        return this.i18n?.locale || 'en';
+    }
+
+    /**
+     * Switch the locale of the plugin at runtime, all open pages are notified.
+     * @param locale locale to switch to, e.g. 'zh-cn'
+     */
+    public async setLocale(locale: string): Promise<void> {
+        await this.call('plugin.setLocale', locale);
+    }
+
+    /**
+     * Listen to locale switches, so that the page can localize its content again without being rendered again.
+     */
+    public onDidChangeLocale(listener: (locale: string) => void): { dispose(): void } {
+        this.localeChangeListeners.push(listener);
+        return {
+            dispose: () => {
+                this.localeChangeListeners = this.localeChangeListeners.filter((registered) => registered !== listener);
+            }
+        };
+    }
+
+    /**
+     * Replace the localized messages when the plugin switches the locale.
+     * @param i18n locale and messages of the new locale
+     */
+    public onLocaleChange(i18n: I18nData): void {
+        this.i18n = i18n;
+        this.localeChangeListeners.forEach((listener) => listener(i18n.locale));
+    }
+
+    /**
+     * Return the active color theme of the IDE.
+     */
+    public getTheme(): ThemeInfo {
+        const colors: { [token: string]: string } = {};
+        // the IDE sets the colors of the theme as CSS variables on the root element, e.g. --theia-editor-background
+        const style = this.pluginPageContext.window.document.documentElement?.style;
+        for (let i = 0; style && i < style.length; i++) {
+            const match = /^--(?:theia|vscode)-(.+)$/.exec(style.item(i));
+            if (match) {
+                colors[match[1].replace(/-/g, '.')] = style.getPropertyValue(match[0]).trim();
+            }
+        }
+        return { kind: this.themeKind, colors };
+    }
+
+    /**
+     * Listen to the color theme of the IDE being switched.
+     */
+    public onDidChangeTheme(listener: (theme: ThemeInfo) => void): { dispose(): void } {
+        this.themeChangeListeners.push(listener);
+        return {
+            dispose: () => {
+                this.themeChangeListeners = this.themeChangeListeners.filter((registered) => registered !== listener);
+            }
+        };
+    }
+
+    /**
+     * Called by the plugin when the color theme of the IDE is switched.
+     */
+    public onThemeChange(kind: ThemeKind): void {
+        this.applyThemeClass(kind);
+        this.themeKind = kind;
+        const theme = this.getTheme();
+        this.themeChangeListeners.forEach((listener) => listener(theme));
+    }
+
+    private applyThemeClass(kind: ThemeKind): void {
+        const root = this.pluginPageContext.window.document.documentElement;
+        if (!root) {
+            return;
+        }
+        root.classList.remove(`theme-${this.themeKind}`);
+        root.classList.add(`theme-${kind}`);
+    }
+
+    /**
+     * Whether the webview view of the page is shown, pages of panels are always visible.
+     */
+    public get visible(): boolean {
+        return this._visible;
+    }
+
+    /**
+     * Listen to the webview view of the page being shown or hidden.
+     */
+    public onDidChangeVisibility(listener: (visible: boolean) => void): { dispose(): void } {
+        this.visibilityChangeListeners.push(listener);
+        return {
+            dispose: () => {
+                this.visibilityChangeListeners = this.visibilityChangeListeners.filter(
+                    (registered) => registered !== listener
+                );
+            }
+        };
+    }
+
+    /**
+     * Called by the plugin when the webview view of the page is shown or hidden.
+     */
+    public onVisibilityChange(visible: boolean): void {
+        if (this._visible === visible) {
+            return;
+        }
+        this._visible = visible;
+        this.visibilityChangeListeners.forEach((listener) => listener(visible));
+    }
+
+    /**
+     * Return the document of the custom editor the page is opened in, see Plugin.registerCustomEditor.
+     */
+    public getCustomDocument(): Promise<CustomDocumentModel> {
+        if (!this.customDocument) {
+            this.customDocument = this.call('plugin.customEditor.getDocument', pageInstanceId).then((snapshot) => {
+                this.customDocumentModel = new CustomDocumentModel(snapshot, (func, ...args) =>
+                    this.call(func, pageInstanceId, ...args)
+                );
+                return this.customDocumentModel;
+            });
+            // let the page try again, e.g. if it is not the page of a custom editor
+            this.customDocument.catch(() => (this.customDocument = undefined));
+        }
+        return this.customDocument;
+    }
+
+    /**
+     * Called by the plugin when the document of the custom editor changes.
+     */
+    public onDocumentChange(event: TextDocumentChangeEventDto): void {
+        this.customDocumentModel?.applyChange(event);
+    }
+
+    /**
+     * Make a function call to frontend.
+     * @param identifier remote function with the format of 'viewType::function-id', a function without view type
+     * is called on the plugin backends only, other pages are reached through their view type or instance id
      * @param args parameters passed to remote function
      * @returns Promise<any>
      */
     public async call(func: any, ...args: any[]): Promise<any> {
+        return this.callWithOptions(func, {}, ...args);
+    }
+
+    /**
+     * Make a function call with timeout and cancellation.
+     * CancellationTokens and AbortSignals in args are passed to the remote function as CancellationTokens,
+     * they are cancelled when the call is cancelled or timed out.
+     * Functions in args, e.g. a progress callback, can be invoked by the remote function until the call completes
+     * or the returned stream ends.
+     * If the remote function returns an async iterable, the call resolves to an async iterable as well.
+     * @param func remote function with the format of 'viewType::function-id'
+     * @param options timeout and cancellation signal of the call, the timeout defaults to defaultCallTimeout
+     * @param args parameters passed to remote function
+     */
+    public async callWithOptions(func: any, options: CallOptions, ...args: any[]): Promise<any> {
         let funcName = func as string;
         if (typeof func !== 'string') {
             funcName = func.name as string;
@@ -234,26 +683,69 @@ export class PluginPage {
             const funcCallArry = funcName.split('.');
             const argsForTheia = funcCallArry.slice(1);
             argsForTheia.push(...args);
-            return this._call('codearts', ...argsForTheia);
+            funcName = 'codearts';
+            args = argsForTheia;
+        }
+        const target =
+            funcName.indexOf('::') >= 0 ? funcName.substring(0, funcName.indexOf('::')) : backendClientIdentifier;
+        const callbacks = remoteStreams.exportCallbacks(args);
+        let ret: any;
+        try {
+            ret = await remoteCancellation.call(
+                (callArgs) => this._call(funcName, ...callArgs),
+                (cancellationId) => this._call(`${target}::plugin.cancelCall`, cancellationId),
+                callbacks.args,
+                { ...options, timeout: options.timeout ?? this.defaultCallTimeout }
+            );
+        } catch (e) {
+            callbacks.release();
+            throw e;
         }
-        return this._call(funcName, ...args);
+        const call = (func: string, ...callArgs: any[]) => this._call(func, ...callArgs);
+        return remoteStreams.importResult(ret, target, call, callbacks.release);
+    }
+
+    /**
+     * Return a typed proxy of the API exposed by the plugin backend.
+     * @example page.remote<MyBackendApi>('myBackend').fetch(id) calls the function exposed as 'myBackend.fetch'
+     * @param namespace prefix of the identifiers the backend API is exposed with
+     */
+    public remote<T>(namespace?: string): RemoteApi<T> {
+        return createRemoteApi<T>((identifier, ...args) => this.callWithOptions(identifier, {}, ...args), namespace);
     }
 
     /**
      * Subscribe to event fired from backend plugin
+     * Events defined in EventType are received as the DTO declared in EventPayloadMap.
      * @param eventType unique type of event
      * @param eventHandler callback function to execute when event fired
+     * @param options filter and rate limit applied by the plugin backend before the event is sent to the page
      */
+    public subscribeEvent<K extends EventType>(
+        eventType: K,
+        eventHandler: EventHandler<K>,
+        options?: SubscribeOptions
+    ): Promise<void>;
+    public subscribeEvent(
+        eventType: string,
+        eventHandler: (eventType: string, event: any) => void,
+        options?: SubscribeOptions
+    ): Promise<void>;
     public async subscribeEvent(
         eventType: string,
-        eventHandler: (eventType: string, event: any) => void
+        eventHandler: (eventType: any, event: any) => void,
+        options?: SubscribeOptions
     ): Promise<void> {
-        await this.call('plugin.subscribeEvent', eventType);
+        const registeredHandler: RegisteredEventHandler = { handler: eventHandler };
+        if (options) {
+            registeredHandler.subscriptionId = `${pageInstanceId}.subscription.${++this.subscriptionSequence}`;
+        }
+        await this.call('plugin.subscribeEvent', eventType, pageInstanceId, options, registeredHandler.subscriptionId);
         const eventHandlers = this.registeredEventHandlers.get(eventType);
         if (eventHandlers) {
-            eventHandlers.push(eventHandler);
+            eventHandlers.push(registeredHandler);
         } else {
-            const handlers = [eventHandler];
+            const handlers = [registeredHandler];
             this.registeredEventHandlers.set(eventType, handlers);
         }
     }
@@ -263,15 +755,19 @@ export class PluginPage {
      * @param eventType unique type of event
      * @param eventHandler callback function registered
      */
+    public unsubscribeEvent<K extends EventType>(eventType: K, eventHandler: EventHandler<K>): Promise<void>;
+    public unsubscribeEvent(eventType: string, eventHandler: (eventType: string, event: any) => void): Promise<void>;
     public async unsubscribeEvent(
         eventType: string,
-        eventHandler: (eventType: string, event: any) => void
+        eventHandler: (eventType: any, event: any) => void
     ): Promise<void> {
-        await this.call('plugin.unsubscribeEvent', eventType);
         const eventHandlers = this.registeredEventHandlers.get(eventType);
-        if (eventHandlers) {
-            eventHandlers.splice(eventHandlers.indexOf(eventHandler), 1);
+        const index = eventHandlers ? eventHandlers.findIndex((registered) => registered.handler === eventHandler) : -1;
+        if (!eventHandlers || index < 0) {
+            return;
         }
+        const [registeredHandler] = eventHandlers.splice(index, 1);
+        await this.call('plugin.unsubscribeEvent', eventType, pageInstanceId, registeredHandler.subscriptionId);
     }
 
     /**
@@ -280,27 +776,72 @@ export class PluginPage {
      * @param eventHandler callback function registered
      */
     public async unsubscribeAllEvents(): Promise<void> {
-        for (const eventType of this.registeredEventHandlers.keys()) {
-            await this.call('plugin.unsubscribeEvent', eventType);
-        }
         this.registeredEventHandlers.clear();
+        await this.call('plugin.unsubscribeAllEvents', pageInstanceId);
     }
 
     /**
-     * Log to backend
+     * Log to backend, the plugin tags the record with the view type of the page.
      * @param level log level
      * @param message log message
+     * @param fields structured fields of the record
      */
-    public async log(level: LogLevel, message: string): Promise<void> {
-        this.call('plugin.log', level.valueOf(), message);
+    public async log(level: LogLevel, message: string, fields?: LogFields): Promise<void> {
+        // a failed call is not reported, the rejection would be forwarded to the log again
+        return this.call('plugin.log', pageInstanceId, level.valueOf(), message, fields).catch(() => undefined);
     }
 
     /**
-     * Convert local resource path to webview path
+     * Forward console.* calls and uncaught errors of the page to the plugin log.
+     */
+    private captureConsole(): void {
+        const pageWindow: any = this.pluginPageContext.window;
+        const pageConsole = pageWindow.console;
+        // records logged while forwarding a record are not forwarded again
+        let forwarding = false;
+        const forward = (level: LogLevel, message: string, fields: LogFields) => {
+            if (forwarding) {
+                return;
+            }
+            forwarding = true;
+            try {
+                this.log(level, message, fields);
+            } finally {
+                forwarding = false;
+            }
+        };
+        if (pageConsole) {
+            Object.keys(consoleLevels).forEach((method) => {
+                const original = pageConsole[method];
+                if (typeof original !== 'function') {
+                    return;
+                }
+                pageConsole[method] = (...args: any[]) => {
+                    original.apply(pageConsole, args);
+                    forward(consoleLevels[method], args.map(formatConsoleArg).join(' '), { source: 'console' });
+                };
+            });
+        }
+        pageWindow.addEventListener('error', (event: any) => {
+            const location = event.filename ? ` at ${event.filename}:${event.lineno}:${event.colno}` : '';
+            forward(LogLevel.ERROR, `${event.error?.stack || event.message}${location}`, { source: 'uncaught' });
+        });
+        pageWindow.addEventListener('unhandledrejection', (event: any) => {
+            forward(LogLevel.ERROR, `unhandled rejection: ${formatConsoleArg(event.reason)}`, { source: 'uncaught' });
+        });
+    }
+
+    /**
+     * Convert local resource path to webview path, the same URI that the plugin renders the assets of the page with.
      * @param path relative path to the plugin root directory
      */
     public toWebviewResource(path: string): string {
-        return `theia-resource/file${this.extensionPath}/${path}`.split(/\/+/).join('/');
+        const resourceBaseUri = this.cloudidePluginApi.getResourceBaseUri?.();
+        if (!resourceBaseUri) {
+            return `theia-resource/file${this.extensionPath}/${path}`.split(/\/+/).join('/');
+        }
+        const segments = path.split(/[/\\]+/).filter((segment) => segment && segment !== '.');
+        return [resourceBaseUri.replace(/\/+$/, ''), ...segments.map(encodeURIComponent)].join('/');
     }
 
     /**
@@ -349,9 +890,26 @@ export class PluginPage {
         return this.call('plugin.registerProjectWizardProvider', opts);
     }
 
+    /**
+     * Register a provider for a webview view contributed to the explorer or the activity bar.
+     * @param opts options to create the webview provider, opts.viewType must be the id of the view
+     */
+    public async registerWebviewViewProvider(opts: WebviewOptions): Promise<boolean> {
+        return this.call('plugin.registerWebviewViewProvider', opts);
+    }
+
+    /**
+     * Change the title, description or badge of a webview view.
+     * @param info changes to apply
+     * @param viewType view type of the webview view, defaults to the view of this page
+     */
+    public async updateWebviewView(info: WebviewViewInfo, viewType?: string): Promise<boolean> {
+        return this.call('plugin.updateWebviewView', viewType || this.cloudidePluginApi.getViewType(), info);
+    }
+
     /**
      * Dispose webview with specific viewType
-     * @param viewType view type of the dynamic webview
+     * @param viewType view type of the dynamic webview, or the instance id of one of its pages
      */
     public async disposeWebviewContainer(viewType: string): Promise<void> {
         return this.call('plugin.disposeWebviewContainer', viewType);
@@ -365,6 +923,41 @@ export class PluginPage {
         return this.call('cloudide.commands.executeCommand', id, ...args);
     }
 
+    /**
+     * Register a command that runs the handler in this page, e.g. when it is run from the command palette.
+     * The command is removed when the page is disposed or reloaded.
+     * The command must be contributed in package.json, which also decides how it is shown, see PageCommandOptions.
+     * @param id id of the command, unique among the commands of the IDE
+     * @param handler called with the arguments of the command, its result is returned to the caller
+     */
+    public async registerCommand(
+        id: string,
+        handler: (...args: any[]) => any,
+        options?: PageCommandOptions
+    ): Promise<{ dispose(): Promise<void> }> {
+        await this.call('plugin.commands', pageInstanceId, 'register', id, options);
+        this.commandHandlers.set(id, handler);
+        return {
+            dispose: async () => {
+                if (this.commandHandlers.get(id) === handler) {
+                    this.commandHandlers.delete(id);
+                    await this.call('plugin.commands', pageInstanceId, 'unregister', id);
+                }
+            }
+        };
+    }
+
+    /**
+     * Called by the plugin when a command registered by this page is run.
+     */
+    public async onExecuteCommand(id: string, ...args: any[]): Promise<any> {
+        const handler = this.commandHandlers.get(id);
+        if (!handler) {
+            throw new Error(`command ${id} is not registered by ${pageInstanceId}`);
+        }
+        return handler(...args);
+    }
+
     /**
      * Register context menu to the target dom
      * @param target the dom to add context menu
@@ -393,7 +986,7 @@ export class PluginPage {
 /**
  * Defines a set of methods that used to communicate between PluginPage and other scope.
  */
-@messaging(cloudidePluginApi.getViewType())
+@messaging(pageInstanceId)
 class PluginPageContext implements IframeLike {
     readonly window: Window;
     private handleMessage?: (message: any) => void;
@@ -424,11 +1017,34 @@ class PluginPageContext implements IframeLike {
         this.handleMessage = handleMessage;
         const handlePluginMessage = this.handleMessage;
         this.window.addEventListener('message', (event) => {
-            handlePluginMessage(event.data);
+            const message = event.data;
+            const to = message?.to;
+            if (message && !message.notify && (to === '*' || to === pageInstanceId)) {
+                const args = remoteStreams.reviveCallbacks(
+                    message.from,
+                    remoteCancellation.reviveArgs(message.id, message.args),
+                    (func, ...callbackArgs) => PluginPage.getInstance().call(func, ...callbackArgs)
+                );
+                handlePluginMessage({ ...message, args });
+            } else {
+                handlePluginMessage(message);
+            }
         });
     }
 
+    getState(): PersistedWebviewState | undefined {
+        return this.vscodeApi?.getState();
+    }
+
+    setState(state: PersistedWebviewState): void {
+        this.vscodeApi?.setState(state);
+    }
+
     postMessage(message: any) {
+        if (message.notify) {
+            remoteCancellation.release(message.id);
+            message = remoteStreams.exportResult(message);
+        }
         if (this.vscodeApi) {
             this.vscodeApi.postMessage(message);
         } else {
@@ -454,8 +1070,63 @@ class DefaultPageApi extends AbstractFrontend {
         // do nothing
     }
 
+    @expose('plugin.cancelCall')
+    public cancelCall(cancellationId: string) {
+        remoteCancellation.cancel(cancellationId);
+    }
+
+    @expose('plugin.streamNext')
+    public streamNext(streamId: string) {
+        return remoteStreams.next(streamId);
+    }
+
+    @expose('plugin.streamReturn')
+    public streamReturn(streamId: string) {
+        return remoteStreams.return(streamId);
+    }
+
+    @expose('plugin.invokeCallback')
+    public invokeCallback(callbackId: string, ...args: any[]) {
+        remoteStreams.invokeCallback(callbackId, ...args);
+    }
+
+    @expose('plugin.page.onLocaleChange')
+    public onLocaleChange(i18n: I18nData) {
+        this.plugin.onLocaleChange(i18n);
+    }
+
+    @expose('plugin.page.onVisibilityChange')
+    public onVisibilityChange(visible: boolean) {
+        this.plugin.onVisibilityChange(visible);
+    }
+
+    @expose('plugin.page.executeCommand')
+    public executeCommand(id: string, ...args: any[]) {
+        return this.plugin.onExecuteCommand(id, ...args);
+    }
+
+    @expose('plugin.page.onThemeChange')
+    public onThemeChange(kind: ThemeKind) {
+        this.plugin.onThemeChange(kind);
+    }
+
+    @expose('plugin.page.onStoreChange')
+    public onStoreChange(name: string, patch: JsonPatchOperation[], version: number) {
+        return this.plugin.onStoreChange(name, patch, version);
+    }
+
+    @expose('plugin.page.onChannelMessage')
+    public onChannelMessage(channel: string, data: any, publisher: string) {
+        this.plugin.onChannelMessage(channel, data, publisher);
+    }
+
+    @expose('plugin.page.onDocumentChange')
+    public onDocumentChange(event: TextDocumentChangeEventDto) {
+        this.plugin.onDocumentChange(event);
+    }
+
     @expose('plugin.page.onEvent')
-    public onEvent(eventType: string, event: any) {
-        this.plugin.onEvent(eventType, event);
+    public onEvent(eventType: string, event: any, subscriptionId?: string) {
+        this.plugin.onEvent(eventType, event, subscriptionId);
     }
 }
@@ -0,0 +1,82 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BridgeWelcome, RemotePluginApiData, bridgeMessageTypes } from '../common/remote-bridge';
+
+/**
+ * Connect a remote page to the plugin through the bridge of its wrapper webview, see WebviewOptions.remoteBridge.
+ * The handshake provides acquireCloudidePluginApi and acquireVsCodeApi to the page, so the plugin API module
+ * must be loaded once the returned promise resolves.
+ * @example
+ * ```
+ *     await connectRemoteBridge();
+ *     const { PluginPage } = await import('@codearts/core/lib/browser/plugin-api');
+ *     PluginPage.create([DashboardFrontend]);
+ * ```
+ * @param options timeout of the handshake in milliseconds, 10 seconds by default
+ * @returns data of the page passed by the plugin
+ */
+export function connectRemoteBridge(options: { timeout?: number; window?: Window } = {}): Promise<RemotePluginApiData> {
+    const pageWindow: any = options.window || window;
+    const parent: Window = pageWindow.parent;
+    if (!parent || parent === pageWindow) {
+        return Promise.reject(new Error('the page is not embedded in a webview of the plugin'));
+    }
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            pageWindow.removeEventListener('message', onWelcome);
+            reject(
+                new Error('the webview did not answer, check that the origin of the page is allowed by remoteBridge')
+            );
+        }, options.timeout ?? 10000);
+        function onWelcome(event: MessageEvent): void {
+            const welcome: BridgeWelcome = event.data;
+            if (event.source !== parent || welcome?.type !== bridgeMessageTypes.welcome) {
+                return;
+            }
+            clearTimeout(timer);
+            pageWindow.removeEventListener('message', onWelcome);
+            installPluginApi(pageWindow, parent, event.origin, welcome);
+            resolve(welcome.pluginApiData);
+        }
+        pageWindow.addEventListener('message', onWelcome);
+        // the hello carries no data, the origin of the webview is only known from its answer
+        parent.postMessage({ type: bridgeMessageTypes.hello }, '*');
+    });
+}
+
+/**
+ * Provide the globals that local pages get from the script injected by Plugin.renderHtml and from the webview.
+ */
+function installPluginApi(pageWindow: any, parent: Window, webviewOrigin: string, welcome: BridgeWelcome): void {
+    const data = welcome.pluginApiData;
+    let state = welcome.state;
+    let acquired = false;
+    pageWindow.acquireCloudidePluginApi = () => {
+        if (acquired) {
+            throw new Error('An instance of the CloudIDE Plugin API has already been acquired');
+        }
+        acquired = true;
+        return Object.freeze({
+            getViewType: () => data.viewType,
+            getInstanceId: () => data.instanceId || data.viewType,
+            getExtData: () => data.extData,
+            getI18n: () => data.i18n,
+            // remote pages load their assets from their own origin
+            getExtensionPath: () => '',
+            getThemeKind: () => data.themeKind
+        });
+    };
+    pageWindow.acquireVsCodeApi = () => ({
+        postMessage: (message: any) => parent.postMessage(message, webviewOrigin),
+        getState: () => state,
+        setState: (newState: any) => {
+            state = newState;
+            parent.postMessage({ type: bridgeMessageTypes.setState, state: newState }, webviewOrigin);
+            return newState;
+        }
+    });
+}
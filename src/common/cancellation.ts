@@ -0,0 +1,244 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Token passed to a function to notice the cancellation of the call, compatible with CancellationToken of the IDE.
+ */
+export interface CancellationToken {
+    readonly isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+/**
+ * Signal that cancels a call, either a CancellationToken or an AbortSignal.
+ */
+export type CancellationSignal = CancellationToken | AbortSignal;
+
+export interface CallOptions {
+    /**
+     * Milliseconds to wait for the result, including the time waiting for the target page to be initialized.
+     * The call waits forever if not defined or 0.
+     */
+    timeout?: number;
+
+    /**
+     * Cancel the call, the cancellation is also sent to the tokens passed to the remote function.
+     */
+    signal?: CancellationSignal;
+}
+
+/**
+ * Thrown when a call is cancelled.
+ */
+export class CancellationError extends Error {
+    constructor(message = 'Canceled') {
+        super(message);
+        this.name = 'CancellationError';
+    }
+}
+
+/**
+ * Thrown when a call does not complete in time.
+ */
+export class TimeoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TimeoutError';
+    }
+}
+
+export class CancellationTokenSource {
+    private cancelled = false;
+    private listeners: (() => void)[] = [];
+
+    readonly token: CancellationToken;
+
+    constructor() {
+        const isCancelled = () => this.cancelled;
+        this.token = Object.freeze({
+            get isCancellationRequested() {
+                return isCancelled();
+            },
+            onCancellationRequested: (listener: () => void) => {
+                this.listeners.push(listener);
+                return {
+                    dispose: () => {
+                        this.listeners = this.listeners.filter((registered) => registered !== listener);
+                    }
+                };
+            }
+        });
+    }
+
+    cancel(): void {
+        if (this.cancelled) {
+            return;
+        }
+        this.cancelled = true;
+        const listeners = this.listeners;
+        this.listeners = [];
+        listeners.forEach((listener) => listener());
+    }
+}
+
+function isCancellationToken(value: any): value is CancellationToken {
+    return (
+        !!value &&
+        typeof value.isCancellationRequested === 'boolean' &&
+        typeof value.onCancellationRequested === 'function'
+    );
+}
+
+function isAbortSignal(value: any): value is AbortSignal {
+    return !!value && typeof value.aborted === 'boolean' && typeof value.addEventListener === 'function';
+}
+
+function isCancellationSignal(value: any): value is CancellationSignal {
+    return isCancellationToken(value) || isAbortSignal(value);
+}
+
+/**
+ * Register the listener to the signal, return the function to unregister it.
+ */
+function onCancelled(signal: CancellationSignal, listener: () => void): () => void {
+    if (isAbortSignal(signal)) {
+        signal.addEventListener('abort', listener);
+        return () => signal.removeEventListener('abort', listener);
+    }
+    const disposable = signal.onCancellationRequested(listener);
+    return () => disposable.dispose();
+}
+
+function isCancelled(signal: CancellationSignal): boolean {
+    return isAbortSignal(signal) ? signal.aborted : signal.isCancellationRequested;
+}
+
+// key of the object that replaces a cancellation signal in the arguments of a remote call
+const cancellationMarkerKey = '$cancellationToken';
+
+/**
+ * Carry cancellation across scopes.
+ * The caller replaces the cancellation signals in the arguments with markers, the callee replaces the markers with
+ * tokens of its own and cancels them when the caller calls the exposed 'plugin.cancelCall' function.
+ */
+export class RemoteCancellation {
+    private readonly idPrefix = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2)}-`;
+    private sequence = 0;
+    // token sources of the calls being executed, with the id of the call message
+    private readonly sources: Map<string, { source: CancellationTokenSource; messageId: string }> = new Map();
+
+    /**
+     * Number of received calls being executed with cancellation tokens.
+     */
+    get executingCalls(): number {
+        return this.sources.size;
+    }
+
+    /**
+     * Make a remote call with timeout and cancellation.
+     * @param makeCall function that sends the call with the arguments
+     * @param cancelRemote function that asks the remote side to cancel the tokens of the call
+     * @param args arguments of the call, may contain CancellationTokens and AbortSignals
+     * @param options timeout and signal of the call
+     */
+    call(
+        makeCall: (args: any[]) => Promise<any>,
+        cancelRemote: (cancellationId: string) => Promise<any>,
+        args: any[],
+        options: CallOptions = {}
+    ): Promise<any> {
+        const cancellationId = `${this.idPrefix}${++this.sequence}`;
+        const signals = args.filter(isCancellationSignal);
+        if (options.signal) {
+            signals.push(options.signal);
+        }
+        const callArgs = args.map((arg) =>
+            isCancellationSignal(arg) ? { [cancellationMarkerKey]: cancellationId } : arg
+        );
+        const hasRemoteTokens = signals.length > (options.signal ? 1 : 0);
+        if (signals.length === 0 && !options.timeout) {
+            return makeCall(callArgs);
+        }
+        return new Promise((resolve, reject) => {
+            const cleanups: (() => void)[] = [];
+            let settled = false;
+            const settle = (complete: () => void) => {
+                if (!settled) {
+                    settled = true;
+                    cleanups.forEach((cleanup) => cleanup());
+                    complete();
+                }
+            };
+            const cancel = (error: Error) => {
+                if (!settled && hasRemoteTokens) {
+                    cancelRemote(cancellationId).catch(() => undefined);
+                }
+                settle(() => reject(error));
+            };
+            if (options.timeout) {
+                const timer = setTimeout(
+                    () => cancel(new TimeoutError(`call timed out after ${options.timeout}ms`)),
+                    options.timeout
+                );
+                cleanups.push(() => clearTimeout(timer));
+            }
+            signals.forEach((signal) => {
+                cleanups.push(onCancelled(signal, () => cancel(new CancellationError())));
+            });
+            // the call is not sent if it is cancelled already
+            if (signals.some(isCancelled)) {
+                settle(() => reject(new CancellationError()));
+                return;
+            }
+            makeCall(callArgs).then(
+                (value) => settle(() => resolve(value)),
+                (err) => settle(() => reject(err))
+            );
+        });
+    }
+
+    /**
+     * Replace the markers in the arguments of a received call with cancellation tokens.
+     * @param messageId id of the call message, the tokens are released when the call is replied
+     * @param args arguments of the call
+     */
+    reviveArgs(messageId: string, args?: any[]): any[] | undefined {
+        return args?.map((arg) => {
+            const cancellationId = arg && arg[cancellationMarkerKey];
+            if (typeof cancellationId !== 'string') {
+                return arg;
+            }
+            // the signals of a call share the cancellation id
+            let entry = this.sources.get(cancellationId);
+            if (!entry) {
+                entry = { source: new CancellationTokenSource(), messageId };
+                this.sources.set(cancellationId, entry);
+            }
+            return entry.source.token;
+        });
+    }
+
+    /**
+     * Cancel the tokens of a call, called by the caller through 'plugin.cancelCall'.
+     * The cancellation is sent after the call, a call that is not being executed has been replied already.
+     */
+    cancel(cancellationId: string): void {
+        this.sources.get(cancellationId)?.source.cancel();
+    }
+
+    /**
+     * Release the tokens of a call once it is replied.
+     * @param messageId id of the call message
+     */
+    release(messageId: string): void {
+        this.sources.forEach((entry, cancellationId) => {
+            if (entry.messageId === messageId) {
+                this.sources.delete(cancellationId);
+            }
+        });
+    }
+}
@@ -0,0 +1,198 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/* eslint-disable @typescript-eslint/ban-types */
+import 'reflect-metadata';
+
+/**
+ * 'singleton' services have one instance per plugin, shared by all backends.
+ * 'page' services have one instance per page, on the backend they are got with Plugin.getService(Class, instanceId).
+ */
+export type InjectionScope = 'singleton' | 'page';
+
+const scopeKey = 'codearts:injection:scope';
+const parametersKey = 'codearts:injection:parameters';
+const propertiesKey = 'codearts:injection:properties';
+
+interface PropertyInjection {
+    property: string | symbol;
+    token: Function;
+}
+
+// metadata is kept on the prototype, which the class shares with the wrapper class created by @exposable
+function metadataTarget(constructor: Function): object {
+    return constructor.prototype || constructor;
+}
+
+/**
+ * Mark a class as a service that can be injected, its constructor parameters are injected as well.
+ * @example
+ * ```
+ *     @injectable({ scope: 'page' })
+ *     export class SessionService {
+ *         constructor(@inject(StorageService) private readonly storage: StorageService) {}
+ *     }
+ * ```
+ */
+export function injectable(options: { scope?: InjectionScope } = {}) {
+    return <C extends Function>(constructor: C): C => {
+        Reflect.defineMetadata(scopeKey, options.scope || 'singleton', metadataTarget(constructor));
+        return constructor;
+    };
+}
+
+/**
+ * Inject a backend, a frontend or an injectable service into a constructor parameter or a property.
+ * The token may be omitted if the declared type is a class.
+ * Properties are injected after the constructor returns, constructor parameters of backends and frontends
+ * follow their plugin and context parameters.
+ * @example
+ * ```
+ *     export class QueryBackend extends AbstractBackend {
+ *         @inject(DatabaseBackend) private readonly database!: DatabaseBackend;
+ *     }
+ * ```
+ */
+export function inject(token?: Function) {
+    return (target: any, propertyKey: string | symbol | undefined, parameterIndex?: number): void => {
+        if (typeof parameterIndex === 'number') {
+            // target is the class of the decorated constructor
+            const tokens: Function[] = [...(Reflect.getOwnMetadata(parametersKey, metadataTarget(target)) || [])];
+            tokens[parameterIndex] = token || Reflect.getOwnMetadata('design:paramtypes', target)?.[parameterIndex];
+            Reflect.defineMetadata(parametersKey, tokens, metadataTarget(target));
+            return;
+        }
+        // target is the prototype of the class of the decorated property, properties of base classes are inherited
+        const properties: PropertyInjection[] = [
+            ...(Reflect.getMetadata(propertiesKey, target) || []),
+            {
+                property: propertyKey as string | symbol,
+                token: token || Reflect.getMetadata('design:type', target, propertyKey as string | symbol)
+            }
+        ];
+        Reflect.defineMetadata(propertiesKey, properties, target);
+    };
+}
+
+function scopeOf(token: Function): InjectionScope | undefined {
+    return Reflect.getOwnMetadata(scopeKey, metadataTarget(token));
+}
+
+function nameOf(token: Function | undefined): string {
+    return token?.name || String(token);
+}
+
+/**
+ * Create and hold the instances of injectable classes.
+ * The injector of the plugin holds the singletons, a child injector is created for each page to hold page services.
+ */
+export class Injector {
+    private readonly instances: Map<Function, any> = new Map();
+    // classes created with leading constructor arguments, e.g. backends created with plugin and context
+    private readonly classes: Map<Function, any[]> = new Map();
+    private readonly created: any[] = [];
+    private readonly resolving: Function[] = [];
+
+    /**
+     * @param parent injector of the plugin, undefined for the injector of the plugin itself
+     * @param pageScope whether page services are created by this injector, true for child injectors
+     */
+    constructor(private readonly parent?: Injector, private readonly pageScope = !!parent) {}
+
+    /**
+     * Inject the value for the token.
+     */
+    bind(token: Function, value: any): void {
+        this.instances.set(token, value);
+    }
+
+    /**
+     * Create the class when it is injected the first time.
+     * @param leadingArgs arguments passed before the injected constructor parameters
+     */
+    bindClass(token: Function, leadingArgs: any[] = []): void {
+        this.classes.set(token, leadingArgs);
+    }
+
+    createChild(): Injector {
+        return new Injector(this);
+    }
+
+    get<T>(token: (new (...args: any[]) => T) | Function): T {
+        if (this.instances.has(token)) {
+            return this.instances.get(token);
+        }
+        const leadingArgs = this.classes.get(token);
+        const scope = scopeOf(token);
+        if (!leadingArgs) {
+            if (this.parent && scope !== 'page') {
+                return this.parent.get(token);
+            }
+            if (!scope) {
+                throw new Error(`${nameOf(token)} is not injectable, decorate it with @injectable()`);
+            }
+            if (scope === 'page' && !this.pageScope) {
+                throw new Error(`${nameOf(token)} is scoped to pages, it can only be injected into page services`);
+            }
+        }
+        if (this.resolving.includes(token)) {
+            const cycle = [...this.resolving.slice(this.resolving.indexOf(token)), token].map(nameOf).join(' -> ');
+            throw new Error(`circular constructor injection ${cycle}, inject one of them into a property instead`);
+        }
+        this.resolving.push(token);
+        let instance: any;
+        try {
+            const parameterTokens: Function[] = Reflect.getOwnMetadata(parametersKey, metadataTarget(token)) || [];
+            const args = [...(leadingArgs || [])];
+            for (let i = args.length; i < parameterTokens.length; i++) {
+                args[i] = parameterTokens[i] ? this.get(parameterTokens[i]) : undefined;
+            }
+            instance = new (token as any)(...args);
+        } finally {
+            this.resolving.pop();
+        }
+        this.instances.set(token, instance);
+        this.created.push(instance);
+        // properties are injected once the instance is known, so that properties may refer to each other
+        this.injectProperties(instance);
+        return instance;
+    }
+
+    /**
+     * Return the tokens injected into the constructor and the properties of the class.
+     */
+    getDependencies(token: Function): Function[] {
+        const parameterTokens: Function[] = Reflect.getOwnMetadata(parametersKey, metadataTarget(token)) || [];
+        const properties: PropertyInjection[] = Reflect.getMetadata(propertiesKey, metadataTarget(token)) || [];
+        return [...parameterTokens.filter((parameterToken) => !!parameterToken), ...properties.map((p) => p.token)];
+    }
+
+    /**
+     * Dispose the instances created by this injector that have a dispose() method.
+     */
+    dispose(): void {
+        this.created.forEach((instance) => {
+            if (typeof instance.dispose === 'function') {
+                instance.dispose();
+            }
+        });
+        this.created.length = 0;
+        this.instances.clear();
+    }
+
+    private injectProperties(instance: any): void {
+        const properties: PropertyInjection[] =
+            Reflect.getMetadata(propertiesKey, Object.getPrototypeOf(instance)) || [];
+        properties.forEach(({ property, token }) => {
+            if (!token || token === Object) {
+                throw new Error(
+                    `the type of ${nameOf(instance.constructor)}.${String(property)} is unknown, pass it to @inject()`
+                );
+            }
+            instance[property] = this.get(token);
+        });
+    }
+}
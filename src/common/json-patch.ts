@@ -0,0 +1,117 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Operation of a JSON patch (RFC 6902), paths are JSON pointers (RFC 6901), e.g. '/items/0/name'.
+ * Only the operations produced by diff are supported.
+ */
+export type JsonPatchOperation =
+    | { op: 'add'; path: string; value: any }
+    | { op: 'replace'; path: string; value: any }
+    | { op: 'remove'; path: string };
+
+function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null;
+}
+
+function escapePathSegment(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePathSegment(segment: string): string {
+    return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Return the operations that turn the JSON value before into the value after.
+ * Arrays that change length are replaced from the first differing index on, other changes are made in place.
+ */
+export function diff(before: any, after: any, path = ''): JsonPatchOperation[] {
+    if (before === after) {
+        return [];
+    }
+    if (!isObject(before) || !isObject(after) || Array.isArray(before) !== Array.isArray(after)) {
+        return [{ op: 'replace', path, value: after }];
+    }
+    const operations: JsonPatchOperation[] = [];
+    if (Array.isArray(before)) {
+        const common = Math.min(before.length, after.length);
+        for (let i = 0; i < common; i++) {
+            operations.push(...diff(before[i], after[i], `${path}/${i}`));
+        }
+        // remove from the end so that the indexes of the remaining elements do not shift
+        for (let i = before.length - 1; i >= common; i--) {
+            operations.push({ op: 'remove', path: `${path}/${i}` });
+        }
+        for (let i = common; i < after.length; i++) {
+            operations.push({ op: 'add', path: `${path}/${i}`, value: after[i] });
+        }
+        return operations;
+    }
+    Object.keys(before).forEach((key) => {
+        const keyPath = `${path}/${escapePathSegment(key)}`;
+        if (!Object.prototype.hasOwnProperty.call(after, key) || after[key] === undefined) {
+            if (before[key] !== undefined) {
+                operations.push({ op: 'remove', path: keyPath });
+            }
+        } else if (before[key] === undefined) {
+            operations.push({ op: 'add', path: keyPath, value: after[key] });
+        } else {
+            operations.push(...diff(before[key], after[key], keyPath));
+        }
+    });
+    Object.keys(after).forEach((key) => {
+        if (!Object.prototype.hasOwnProperty.call(before, key) && after[key] !== undefined) {
+            operations.push({ op: 'add', path: `${path}/${escapePathSegment(key)}`, value: after[key] });
+        }
+    });
+    return operations;
+}
+
+/**
+ * Return a copy of the JSON value with the operations applied, the value itself is not changed.
+ * Objects and arrays that are not on the path of an operation are shared between the value and the copy.
+ */
+export function applyPatch(value: any, operations: JsonPatchOperation[]): any {
+    return operations.reduce((current, operation) => {
+        if (operation.path === '') {
+            if (operation.op === 'remove') {
+                throw new Error('cannot remove the root of a JSON value');
+            }
+            return operation.value;
+        }
+        const segments = operation.path.substring(1).split('/').map(unescapePathSegment);
+        return applyOperation(current, segments, operation);
+    }, value);
+}
+
+function applyOperation(target: any, segments: string[], operation: JsonPatchOperation): any {
+    if (!isObject(target)) {
+        throw new Error(`cannot apply ${operation.op} at ${operation.path}, the path does not exist`);
+    }
+    const [segment, ...rest] = segments;
+    const copy = Array.isArray(target) ? [...target] : { ...target };
+    if (rest.length > 0) {
+        copy[segment] = applyOperation(target[segment], rest, operation);
+        return copy;
+    }
+    if (Array.isArray(copy)) {
+        const index = segment === '-' ? copy.length : Number(segment);
+        if (operation.op === 'add') {
+            copy.splice(index, 0, operation.value);
+        } else if (operation.op === 'remove') {
+            copy.splice(index, 1);
+        } else {
+            copy[index] = operation.value;
+        }
+    } else if (operation.op === 'remove') {
+        delete copy[segment];
+    } else {
+        copy[segment] = operation.value;
+    }
+    return copy;
+}
@@ -0,0 +1,254 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/* eslint-disable @typescript-eslint/ban-types */
+import 'reflect-metadata';
+
+/**
+ * Backend or frontend managed by a LifecycleManager.
+ */
+export interface LifecycleComponent {
+    init(): Promise<void>;
+    run(): void;
+    stop(): void;
+}
+
+export type LifecyclePhase = 'initializing' | 'initialized' | 'running' | 'stopped' | 'failed';
+
+/**
+ * Fired when a component enters a phase, 'failed' carries the error.
+ */
+export interface LifecycleEvent {
+    /**
+     * Name of the class of the component.
+     */
+    component: string;
+    phase: LifecyclePhase;
+    error?: any;
+}
+
+const dependenciesKey = 'codearts:lifecycle:dependencies';
+
+/**
+ * Declare the backends or frontends that must be initialized before the decorated class.
+ * init() of the class waits for init() of its dependencies, run() is called after run() of its dependencies,
+ * and stop() is called before stop() of its dependencies. The class fails if a dependency fails.
+ * @example
+ * ```
+ *     @exposable
+ *     @dependsOn(DatabaseBackend)
+ *     export class QueryBackend extends AbstractBackend { ... }
+ * ```
+ */
+export function dependsOn(...dependencies: Function[]) {
+    return <C extends Function>(constructor: C): C => {
+        // kept on the prototype, which the class shares with the wrapper class created by @exposable
+        Reflect.defineMetadata(dependenciesKey, dependencies, constructor.prototype);
+        return constructor;
+    };
+}
+
+/**
+ * Return the dependencies declared on the class with @dependsOn.
+ */
+export function getDependencies(constructor: Function): Function[] {
+    return (constructor.prototype && Reflect.getOwnMetadata(dependenciesKey, constructor.prototype)) || [];
+}
+
+// the class wrapped by @exposable is the constructor of the shared prototype
+function nameOf(constructor: Function): string {
+    return constructor.prototype?.constructor?.name || constructor.name;
+}
+
+interface ManagedComponent {
+    key: Function;
+    component: LifecycleComponent;
+    // classes injected into the component, they are ordered before it if they are managed as well
+    injected: Function[];
+    phase?: LifecyclePhase;
+    initialized?: Promise<boolean>;
+}
+
+/**
+ * Initialize, run and stop backends or frontends in the order of their dependencies.
+ * A component that fails is reported and skipped, the other components go on unless they depend on it.
+ */
+export class LifecycleManager {
+    private readonly components: Map<Function, ManagedComponent> = new Map();
+    private listeners: ((event: LifecycleEvent) => void)[] = [];
+    private stopped = false;
+    private resolveStarted!: () => void;
+
+    /**
+     * Resolved when start() has run the components, failed components included.
+     */
+    readonly started: Promise<void> = new Promise((resolve) => (this.resolveStarted = resolve));
+
+    /**
+     * @param reportError called when a component fails in one of its phases
+     */
+    constructor(private readonly reportError: (component: string, phase: string, error: any) => void) {}
+
+    /**
+     * Manage a component, its dependencies are read from the @dependsOn declaration of key.
+     * @param key class of the component
+     * @param injected classes injected into the component, those managed here are initialized before it
+     */
+    add(key: Function, component: LifecycleComponent, injected: Function[] = []): void {
+        if (!this.components.has(key)) {
+            this.components.set(key, { key, component, injected });
+        }
+    }
+
+    /**
+     * Return the phase the component of the class is in, undefined if it is not started.
+     */
+    getPhase(key: Function): LifecyclePhase | undefined {
+        return this.components.get(key)?.phase;
+    }
+
+    onDidChangePhase(listener: (event: LifecycleEvent) => void): { dispose(): void } {
+        this.listeners.push(listener);
+        return {
+            dispose: () => {
+                this.listeners = this.listeners.filter((registered) => registered !== listener);
+            }
+        };
+    }
+
+    /**
+     * Initialize all components, wait for beforeRun, then run the initialized components.
+     * @param beforeRun e.g. wait until the page is ready
+     */
+    async start(beforeRun?: () => Promise<any>): Promise<void> {
+        const order = this.sortByDependencies();
+        order.forEach((managed) => {
+            managed.initialized = this.initialize(managed);
+        });
+        await Promise.all(order.map((managed) => managed.initialized));
+        if (beforeRun) {
+            await beforeRun();
+        }
+        order.forEach((managed) => {
+            if (managed.phase !== 'initialized' || this.stopped) {
+                return;
+            }
+            try {
+                managed.component.run();
+                this.setPhase(managed, 'running');
+            } catch (e) {
+                this.fail(managed, 'run', e);
+            }
+        });
+        this.resolveStarted();
+    }
+
+    /**
+     * Stop the initialized components, in the reverse order of their dependencies.
+     */
+    stop(): void {
+        if (this.stopped) {
+            return;
+        }
+        this.stopped = true;
+        [...this.sortByDependencies()].reverse().forEach((managed) => {
+            if (managed.phase !== 'initialized' && managed.phase !== 'running') {
+                return;
+            }
+            try {
+                managed.component.stop();
+                this.setPhase(managed, 'stopped');
+            } catch (e) {
+                this.fail(managed, 'stop', e);
+            }
+        });
+    }
+
+    private async initialize(managed: ManagedComponent): Promise<boolean> {
+        if (managed.phase === 'failed') {
+            return false;
+        }
+        const missing = getDependencies(managed.key).filter((key) => !this.components.has(key));
+        if (missing.length > 0) {
+            this.fail(managed, 'init', new Error(`missing dependency ${missing.map(nameOf).join(', ')}`));
+            return false;
+        }
+        const dependencies = this.dependenciesOf(managed);
+        const results = await Promise.all(dependencies.map((dependency) => dependency.initialized));
+        if (results.some((result) => !result)) {
+            this.fail(managed, 'init', new Error('a dependency failed to initialize'));
+            return false;
+        }
+        this.setPhase(managed, 'initializing');
+        try {
+            await managed.component.init();
+        } catch (e) {
+            this.fail(managed, 'init', e);
+            return false;
+        }
+        this.setPhase(managed, 'initialized');
+        return true;
+    }
+
+    /**
+     * Order the components so that dependencies come first, components in a dependency cycle fail.
+     */
+    private sortByDependencies(): ManagedComponent[] {
+        const order: ManagedComponent[] = [];
+        const visited: Set<ManagedComponent> = new Set();
+        const visiting: ManagedComponent[] = [];
+        const visit = (managed: ManagedComponent) => {
+            if (visited.has(managed)) {
+                return;
+            }
+            const cycleStart = visiting.indexOf(managed);
+            if (cycleStart >= 0) {
+                const cycle = visiting.slice(cycleStart);
+                const names = cycle.map((member) => nameOf(member.key)).join(' -> ');
+                cycle.forEach((member) => {
+                    if (member.phase !== 'failed') {
+                        this.fail(member, 'init', new Error(`circular dependency ${names}`));
+                    }
+                });
+                return;
+            }
+            visiting.push(managed);
+            this.dependenciesOf(managed).forEach(visit);
+            visiting.pop();
+            visited.add(managed);
+            order.push(managed);
+        };
+        this.components.forEach(visit);
+        return order;
+    }
+
+    private dependenciesOf(managed: ManagedComponent): ManagedComponent[] {
+        const keys = new Set([...getDependencies(managed.key), ...managed.injected]);
+        return [...keys]
+            .map((key) => this.components.get(key))
+            .filter((dependency): dependency is ManagedComponent => !!dependency && dependency !== managed);
+    }
+
+    private fail(managed: ManagedComponent, phase: string, error: any): void {
+        this.reportError(nameOf(managed.key), phase, error);
+        this.setPhase(managed, 'failed', error);
+    }
+
+    private setPhase(managed: ManagedComponent, phase: LifecyclePhase, error?: any): void {
+        managed.phase = phase;
+        const event: LifecycleEvent =
+            error === undefined
+                ? { component: nameOf(managed.key), phase }
+                : { component: nameOf(managed.key), phase, error };
+        this.listeners.forEach((listener) => {
+            try {
+                listener(event);
+            } catch (e) {
+                this.reportError(nameOf(managed.key), `notify the ${phase} phase of`, e);
+            }
+        });
+    }
+}
@@ -0,0 +1,298 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { format } from '@cloudide/nls/lib/common/common';
+
+/**
+ * Localization table of one locale, as loaded from package.nls.<locale>.json.
+ */
+export interface LocaleMessages {
+    locale: string;
+    l10n: { [key: string]: string };
+}
+
+/**
+ * Argument of a message, e.g. '{count, plural, one {# file} other {# files}}'.
+ */
+interface MessageArgument {
+    name: string;
+    type?: string;
+    style?: string;
+    offset?: number;
+    options?: { [selector: string]: MessagePart[] };
+}
+
+// '#' in a plural option, replaced with the formatted number
+const pound = { pound: true };
+
+type MessagePart = string | MessageArgument | typeof pound;
+
+const pluralTypes = ['plural', 'selectordinal'];
+const parsedMessages: Map<string, MessagePart[]> = new Map();
+
+class MessageParser {
+    private index = 0;
+
+    constructor(private readonly message: string) {}
+
+    parse(): MessagePart[] {
+        const parts = this.parseParts(false);
+        if (this.index < this.message.length) {
+            throw this.error('unexpected }');
+        }
+        return parts;
+    }
+
+    private parseParts(inPlural: boolean): MessagePart[] {
+        const parts: MessagePart[] = [];
+        let text = '';
+        while (this.index < this.message.length) {
+            const char = this.message[this.index];
+            if (char === '}') {
+                break;
+            }
+            if (char === '{') {
+                if (text) {
+                    parts.push(text);
+                    text = '';
+                }
+                parts.push(this.parseArgument());
+            } else if (char === '#' && inPlural) {
+                if (text) {
+                    parts.push(text);
+                    text = '';
+                }
+                parts.push(pound);
+                this.index++;
+            } else if (char === "'") {
+                text += this.parseQuoted(inPlural);
+            } else {
+                text += char;
+                this.index++;
+            }
+        }
+        if (text) {
+            parts.push(text);
+        }
+        return parts;
+    }
+
+    // '' is an apostrophe, a quote before a syntax character starts a literal that ends with the next single quote
+    private parseQuoted(inPlural: boolean): string {
+        const next = this.message[this.index + 1];
+        if (next === "'") {
+            this.index += 2;
+            return "'";
+        }
+        if (next !== '{' && next !== '}' && !(next === '#' && inPlural)) {
+            this.index++;
+            return "'";
+        }
+        let literal = '';
+        this.index++;
+        while (this.index < this.message.length) {
+            const char = this.message[this.index];
+            if (char === "'") {
+                if (this.message[this.index + 1] === "'") {
+                    literal += "'";
+                    this.index += 2;
+                    continue;
+                }
+                this.index++;
+                return literal;
+            }
+            literal += char;
+            this.index++;
+        }
+        return literal;
+    }
+
+    private parseArgument(): MessageArgument {
+        // skip '{'
+        this.index++;
+        const name = this.readUntil(',}').trim();
+        if (!name) {
+            throw this.error('missing argument name');
+        }
+        if (this.consume('}')) {
+            return { name };
+        }
+        this.expect(',');
+        const type = this.readUntil(',}').trim();
+        if (this.consume('}')) {
+            return { name, type };
+        }
+        this.expect(',');
+        if (type !== 'select' && !pluralTypes.includes(type)) {
+            const style = this.readUntil('}').trim();
+            this.expect('}');
+            return { name, type, style };
+        }
+        const argument: MessageArgument = { name, type, options: {} };
+        const options = argument.options as { [selector: string]: MessagePart[] };
+        for (;;) {
+            this.skipWhitespace();
+            if (this.consume('}')) {
+                break;
+            }
+            const selector = this.readUntil('{ \t\r\n}');
+            if (!selector) {
+                throw this.error('missing selector');
+            }
+            if (selector.startsWith('offset:') && pluralTypes.includes(type)) {
+                argument.offset = Number(selector.substring('offset:'.length));
+                continue;
+            }
+            this.skipWhitespace();
+            this.expect('{');
+            options[selector] = this.parseParts(type !== 'select');
+            this.expect('}');
+        }
+        if (!options.other) {
+            throw this.error(`missing 'other' option of ${name}`);
+        }
+        return argument;
+    }
+
+    private readUntil(stopChars: string): string {
+        const start = this.index;
+        while (this.index < this.message.length && stopChars.indexOf(this.message[this.index]) < 0) {
+            this.index++;
+        }
+        return this.message.substring(start, this.index);
+    }
+
+    private skipWhitespace(): void {
+        while (this.index < this.message.length && /\s/.test(this.message[this.index])) {
+            this.index++;
+        }
+    }
+
+    private consume(char: string): boolean {
+        if (this.message[this.index] === char) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(char: string): void {
+        if (!this.consume(char)) {
+            throw this.error(`expected ${char}`);
+        }
+    }
+
+    private error(reason: string): Error {
+        return new Error(`invalid message at ${this.index}: ${reason}`);
+    }
+}
+
+function formatNumber(value: number, locale: string, style?: string): string {
+    const options =
+        style === 'percent' ? { style: 'percent' } : style === 'integer' ? { maximumFractionDigits: 0 } : {};
+    try {
+        return new Intl.NumberFormat(locale, options).format(value);
+    } catch (e) {
+        // unknown locale
+        return new Intl.NumberFormat('en', options).format(value);
+    }
+}
+
+function selectPlural(value: number, locale: string, type: string): string {
+    const options: Intl.PluralRulesOptions = { type: type === 'selectordinal' ? 'ordinal' : 'cardinal' };
+    try {
+        return new Intl.PluralRules(locale, options).select(value);
+    } catch (e) {
+        return new Intl.PluralRules('en', options).select(value);
+    }
+}
+
+function formatParts(parts: MessagePart[], values: any, locale: string, pluralValue?: number): string {
+    return parts
+        .map((part) => {
+            if (typeof part === 'string') {
+                return part;
+            }
+            if (part === pound) {
+                return pluralValue === undefined ? '#' : formatNumber(pluralValue, locale);
+            }
+            const argument = part as MessageArgument;
+            const value = values[argument.name];
+            if (value === undefined && !argument.options) {
+                return `{${argument.name}}`;
+            }
+            if (argument.type === 'number') {
+                return formatNumber(Number(value), locale, argument.style);
+            }
+            if (!argument.options) {
+                return String(value);
+            }
+            if (argument.type === 'select') {
+                const option = argument.options[String(value)] || argument.options.other;
+                return formatParts(option, values, locale, pluralValue);
+            }
+            const number = Number(value) - (argument.offset || 0);
+            const option =
+                argument.options[`=${Number(value)}`] ||
+                argument.options[selectPlural(number, locale, argument.type as string)] ||
+                argument.options.other;
+            return formatParts(option, values, locale, number);
+        })
+        .join('');
+}
+
+/**
+ * Format a message in ICU MessageFormat style, supporting '{0}', '{name}', '{n, number}', '{n, plural, ...}',
+ * '{n, selectordinal, ...}' and '{gender, select, ...}'.
+ * @param message message to format
+ * @param args positional values, or a single object of named values
+ * @param locale locale that selects plural forms and number formats
+ */
+export function formatMessage(message: string, args: any[], locale: string): string {
+    let parts = parsedMessages.get(message);
+    if (!parts) {
+        try {
+            parts = new MessageParser(message).parse();
+        } catch (e) {
+            // not a valid MessageFormat pattern, only replace positional arguments
+            return format(message, args);
+        }
+        parsedMessages.set(message, parts);
+    }
+    const named = args.length === 1 && !!args[0] && typeof args[0] === 'object' && !Array.isArray(args[0]);
+    return formatParts(parts, named ? args[0] : args, locale);
+}
+
+/**
+ * Return the locales to look up a message in, e.g. ['zh-cn', 'zh', 'en'] for 'zh-cn'.
+ * @param locale requested locale
+ * @param defaultLocale locale of last resort
+ */
+export function localeFallbacks(locale: string, defaultLocale = 'en'): string[] {
+    const locales: string[] = [];
+    const segments = locale.toLowerCase().split(/[-_]/);
+    for (let i = segments.length; i > 0; i--) {
+        locales.push(segments.slice(0, i).join('-'));
+    }
+    if (!locales.includes(defaultLocale)) {
+        locales.push(defaultLocale);
+    }
+    return locales;
+}
+
+/**
+ * Look up a message in localization tables ordered from the most to the least specific locale.
+ * @returns the message with the locale of the table it is found in, undefined if no table has the key
+ */
+export function lookupMessage(tables: LocaleMessages[], key: string): { message: string; locale: string } | undefined {
+    for (const table of tables) {
+        const message = table.l10n[key];
+        if (typeof message === 'string') {
+            return { message, locale: table.locale };
+        }
+    }
+    return undefined;
+}
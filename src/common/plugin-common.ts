@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: MIT
  ********************************************************************************/
 
+import type { LocaleMessages } from './message-format';
+
 export enum LogLevel {
     DEBUG = 'DEBUG',
     INFO = 'INFO',
@@ -10,6 +12,13 @@ export enum LogLevel {
     ERROR = 'ERROR'
 }
 
+/**
+ * Structured fields of a log record, pages tag their records with viewType and frontend.
+ */
+export interface LogFields {
+    [key: string]: any;
+}
+
 export interface WebviewOptions {
     /**
      * The unique type identifier of the plugin view, which is determined by yourself.
@@ -36,10 +45,18 @@ export interface WebviewOptions {
     /**
      * The path of the page to be displayed.
      * Local page resources are placed under "resources" by default, and starting with "local:".
-     * Remote page cannot interact with the plugin backend.
+     * Remote page cannot interact with the plugin backend unless remoteBridge is enabled.
      */
     viewUrl: string;
 
+    /**
+     * Let the remote page of viewUrl call the plugin through a bridge in the wrapper webview,
+     * the page connects with connectRemoteBridge before it creates the PluginPage.
+     * Messages are only relayed to and from the allowed origins, which default to the origin of viewUrl.
+     * The remote page may only call the API declared with apiPermissions, it gets no API by default.
+     */
+    remoteBridge?: { allowedOrigins?: string[] };
+
     /**
      * when true, on main area the webview will not take focus, on left and right panel the webview will not be expanded.
      */
@@ -56,8 +73,9 @@ export interface WebviewOptions {
      * Template engine to render the html, if undefined, only pure html is supported.
      * l10n and extData are built-in variables.
      * l10n stores all locialization items of specific locale
+     * 'ejs' and 'pug' are built-in, other engines are registered with Plugin.registerTemplateEngine.
      */
-    templateEngine?: 'ejs' | 'pug';
+    templateEngine?: string;
 
     /**
      * The index of the webview in the TabViewPane,The value ranges from 0 to 2^32-2.
@@ -65,6 +83,227 @@ export interface WebviewOptions {
      * If not defined, sort to the end.
      */
     index?: number;
+
+    /**
+     * CodeArts API the page may call with 'codearts.<module>.<property>', e.g. ['window.showInformationMessage', 'workspace.*'].
+     * Permissions of each view type can also be declared in package.json: "codearts": { "apiPermissions": { "<viewType>": [] } },
+     * apiPermissions can then only narrow them. All API are allowed to local pages if neither declares permissions
+     * for the view type, remote pages are allowed no API.
+     * Pages with permissions need 'plugin.createWebviewPanel' and the like to create webviews, which get no more
+     * permissions than the page that creates them.
+     */
+    apiPermissions?: string[];
+
+    /**
+     * API in apiPermissions that the user must allow before the page calls them, the user is asked once per session.
+     * Can also be declared in package.json: "codearts": { "sensitiveApis": { "<viewType>": [] } }.
+     */
+    sensitiveApis?: string[];
+
+    /**
+     * Extra sources allowed by the Content-Security-Policy of the page.
+     */
+    contentSecurityPolicy?: ContentSecurityPolicyOptions;
+
+    /**
+     * Render the local page again when its entry file or assets change, the page state is kept.
+     * Defaults to true when the plugin runs in development mode.
+     */
+    hotReload?: boolean;
+
+    /**
+     * Forward console.* calls and uncaught errors of the page to the plugin log.
+     */
+    captureConsole?: boolean;
+
+    /**
+     * Keep the page of a webview view loaded while the view is hidden, pages of panels are always kept.
+     */
+    retainContextWhenHidden?: boolean;
+}
+
+/**
+ * Options of a custom editor, see Plugin.registerCustomEditor.
+ * The title of the editor is the name of the document unless title is set.
+ */
+export interface CustomEditorOptions extends Omit<WebviewOptions, 'viewType' | 'title'> {
+    title?: string;
+
+    /**
+     * Allow the document to be opened in several editors at once, each editor has its own page.
+     */
+    supportsMultipleEditorsPerDocument?: boolean;
+}
+
+/**
+ * Replace length characters at offset of the document with text.
+ */
+export interface CustomDocumentEdit {
+    offset: number;
+    length: number;
+    text: string;
+}
+
+/**
+ * Document of a custom editor with its text, sent to the page when the page gets the document.
+ */
+export interface CustomDocumentSnapshot {
+    document: TextDocumentDto;
+    text: string;
+}
+
+/**
+ * Title, description and badge of a webview view, see Plugin.updateWebviewView.
+ */
+export interface WebviewViewInfo {
+    title?: string;
+    description?: string;
+
+    /**
+     * Badge shown on the icon of the view container, null removes the badge.
+     */
+    badge?: { value: number; tooltip: string } | null;
+}
+
+/**
+ * Options of a command registered by a page with PluginPage.registerCommand.
+ * The IDE shows the title, keybinding and when clause of a command as contributed in package.json,
+ * the plugin logs a warning if the contribution of the command does not declare them.
+ */
+export interface PageCommandOptions {
+    /**
+     * Title shown in the command palette, e.g. 'Dashboard: Refresh'.
+     */
+    title?: string;
+
+    /**
+     * Key combination that runs the command, e.g. 'ctrl+shift+r'.
+     */
+    keybinding?: string;
+
+    /**
+     * Context in which the command is shown in the command palette, e.g. 'activeWebviewPanelId == dashboard'.
+     */
+    when?: string;
+}
+
+export interface ContentSecurityPolicyOptions {
+    connectSrc?: string[];
+    imgSrc?: string[];
+    styleSrc?: string[];
+    fontSrc?: string[];
+    frameSrc?: string[];
+    mediaSrc?: string[];
+    workerSrc?: string[];
+
+    /**
+     * Extra sources of scripts, for browsers without 'strict-dynamic' and pages that allow inline scripts.
+     * Other browsers only run the scripts of these sources if they carry the nonce or are loaded by such a script.
+     */
+    scriptSrc?: string[];
+
+    /**
+     * Allow inline scripts and inline event handlers such as onclick, scripts then need no nonce.
+     * Scripts injected into the page, e.g. through extData, are allowed as well, so only set it for pages
+     * that cannot move their handlers to script files.
+     */
+    allowInlineScripts?: boolean;
+
+    /**
+     * Report violations of the policy to the plugin log, only works for local pages.
+     */
+    debug?: boolean;
+}
+
+/**
+ * Locale of the plugin and the localized messages passed to pages.
+ */
+export interface I18nData {
+    locale: string;
+
+    /**
+     * Messages of the locale, with the messages of its fallback locales merged in.
+     */
+    l10n?: any;
+
+    /**
+     * Localization tables ordered from the most to the least specific locale,
+     * so that a fallback message is formatted with the locale it is written in.
+     */
+    tables?: LocaleMessages[];
+}
+
+/**
+ * Data passed from the plugin to a page, returned by the API object acquired with acquireCloudidePluginApi.
+ */
+export interface PluginApiData {
+    viewType: string;
+
+    /**
+     * Identifier of the page among the pages of the view type.
+     */
+    instanceId?: string;
+    extData?: any;
+    i18n?: I18nData;
+    extensionPath: string;
+
+    /**
+     * Options the webview is rendered with.
+     */
+    webviewOptions?: WebviewOptions;
+
+    /**
+     * Kind of the color theme active when the page is rendered.
+     */
+    themeKind?: ThemeKind;
+
+    /**
+     * URI the webview loads the root directory of the plugin with.
+     */
+    resourceBaseUri?: string;
+}
+
+/**
+ * Kind of a color theme, the root element of pages has the class 'theme-<kind>' of the active theme, e.g. 'theme-dark'.
+ */
+export type ThemeKind = 'light' | 'dark' | 'high-contrast' | 'high-contrast-light';
+
+/**
+ * Color theme of the IDE as seen by a page.
+ */
+export interface ThemeInfo {
+    kind: ThemeKind;
+
+    /**
+     * Colors of the theme by token id, e.g. 'editor.background', resolved from the CSS variables the IDE sets on the page.
+     */
+    colors: { [token: string]: string };
+}
+
+/**
+ * State persisted with the webview, passed to the panel serializer when the IDE revives the webview.
+ */
+export interface PersistedWebviewState {
+    /**
+     * View type of the page, a panel is not revived for another view type.
+     */
+    viewType?: string;
+
+    /**
+     * State set with PluginPage.state.
+     */
+    pageState?: any;
+}
+
+/**
+ * Error returned to the page when a call to the CodeArts API is not permitted.
+ */
+export interface ApiPermissionError {
+    name: 'ApiPermissionError';
+    code: 'PERMISSION_DENIED';
+    message: string;
+    viewType: string;
+    api: string;
 }
 
 export enum EventType {
@@ -119,3 +358,365 @@ export enum EventType {
     WINDOW_ONDIDCHANGETERMINALSTATE = 'codearts.window.onDidChangeTerminalState',
     WINDOW_ONDIDCHANGEWINDOWSTATE = 'codearts.window.onDidChangeWindowState'
 }
+
+/**
+ * Serializable form of cloudide.Uri.
+ */
+export interface UriDto {
+    scheme: string;
+    authority: string;
+    path: string;
+    query: string;
+    fragment: string;
+    fsPath: string;
+
+    /**
+     * String representation of the uri, the same as uri.toString().
+     */
+    external: string;
+}
+
+export interface PositionDto {
+    line: number;
+    character: number;
+}
+
+export interface RangeDto {
+    start: PositionDto;
+    end: PositionDto;
+}
+
+export interface SelectionDto extends RangeDto {
+    anchor: PositionDto;
+    active: PositionDto;
+    isReversed: boolean;
+}
+
+export interface LocationDto {
+    uri: UriDto;
+    range: RangeDto;
+}
+
+export interface WorkspaceFolderDto {
+    uri: UriDto;
+    name: string;
+    index: number;
+}
+
+export interface TextDocumentDto {
+    uri: UriDto;
+    fileName: string;
+    languageId: string;
+    version: number;
+    isDirty: boolean;
+    isUntitled: boolean;
+    isClosed: boolean;
+    lineCount: number;
+
+    /**
+     * End of line sequence, '\n' or '\r\n'.
+     */
+    eol: string;
+}
+
+export interface TextDocumentContentChangeDto {
+    range: RangeDto;
+    rangeOffset: number;
+    rangeLength: number;
+    text: string;
+}
+
+export interface TextDocumentChangeEventDto {
+    document: TextDocumentDto;
+    contentChanges: TextDocumentContentChangeDto[];
+    reason?: number;
+}
+
+export interface TextDocumentWillSaveEventDto {
+    document: TextDocumentDto;
+    reason: number;
+}
+
+export interface NotebookRangeDto {
+    start: number;
+    end: number;
+}
+
+export interface NotebookDocumentDto {
+    uri: UriDto;
+    notebookType: string;
+    version: number;
+    isDirty: boolean;
+    isUntitled: boolean;
+    isClosed: boolean;
+    cellCount: number;
+    metadata: { [key: string]: any };
+}
+
+export interface NotebookCellDto {
+    index: number;
+    kind: number;
+    document: TextDocumentDto;
+    metadata: { [key: string]: any };
+}
+
+export interface NotebookDocumentChangeEventDto {
+    notebook: NotebookDocumentDto;
+    metadata?: { [key: string]: any };
+    contentChanges: { range: NotebookRangeDto; addedCells: NotebookCellDto[]; removedCells: NotebookCellDto[] }[];
+    cellChanges: { cell: NotebookCellDto; document?: TextDocumentDto; metadata?: { [key: string]: any } }[];
+}
+
+export interface FileOperationEventDto {
+    files: UriDto[];
+}
+
+export interface FileRenameEventDto {
+    files: { oldUri: UriDto; newUri: UriDto }[];
+}
+
+export interface ConfigurationChangeEventDto {
+    /**
+     * Configuration sections contributed by the plugin that are affected by the change.
+     */
+    affectedSections: string[];
+}
+
+export interface DebugSessionDto {
+    id: string;
+    type: string;
+    name: string;
+    workspaceFolder?: WorkspaceFolderDto;
+    configuration: { [key: string]: any };
+}
+
+export interface DebugSessionCustomEventDto {
+    session: DebugSessionDto;
+    event: string;
+    body?: any;
+}
+
+export interface BreakpointDto {
+    id: string;
+    enabled: boolean;
+    condition?: string;
+    hitCondition?: string;
+    logMessage?: string;
+
+    /**
+     * Location of a source breakpoint.
+     */
+    location?: LocationDto;
+
+    /**
+     * Function name of a function breakpoint.
+     */
+    functionName?: string;
+}
+
+export interface BreakpointsChangeEventDto {
+    added: BreakpointDto[];
+    removed: BreakpointDto[];
+    changed: BreakpointDto[];
+}
+
+export interface DiagnosticChangeEventDto {
+    uris: UriDto[];
+}
+
+export interface ExtensionDto {
+    id: string;
+    extensionPath: string;
+    isActive: boolean;
+    extensionKind: number;
+    version?: string;
+    displayName?: string;
+}
+
+export interface ExtensionsChangeEventDto {
+    extensions: ExtensionDto[];
+}
+
+export interface TaskDto {
+    name: string;
+    source: string;
+    definition: { [key: string]: any };
+
+    /**
+     * 'global', 'workspace' or the workspace folder of the task.
+     */
+    scope?: 'global' | 'workspace' | WorkspaceFolderDto;
+    detail?: string;
+    group?: string;
+    isBackground: boolean;
+}
+
+export interface TaskExecutionDto {
+    task: TaskDto;
+}
+
+export interface TaskEventDto {
+    execution: TaskExecutionDto;
+}
+
+export interface TaskProcessStartEventDto extends TaskEventDto {
+    processId: number;
+}
+
+export interface TaskProcessEndEventDto extends TaskEventDto {
+    exitCode?: number;
+}
+
+export interface TextEditorOptionsDto {
+    tabSize?: number | string;
+    insertSpaces?: boolean | string;
+    cursorStyle?: number;
+    lineNumbers?: number;
+}
+
+export interface TextEditorDto {
+    document: TextDocumentDto;
+    selection: SelectionDto;
+    selections: SelectionDto[];
+    visibleRanges: RangeDto[];
+    options: TextEditorOptionsDto;
+    viewColumn?: number;
+}
+
+export interface TextEditorSelectionChangeEventDto {
+    textEditor: TextEditorDto;
+    selections: SelectionDto[];
+    kind?: number;
+}
+
+export interface TextEditorVisibleRangesChangeEventDto {
+    textEditor: TextEditorDto;
+    visibleRanges: RangeDto[];
+}
+
+export interface TextEditorOptionsChangeEventDto {
+    textEditor: TextEditorDto;
+    options: TextEditorOptionsDto;
+}
+
+export interface TextEditorViewColumnChangeEventDto {
+    textEditor: TextEditorDto;
+    viewColumn: number;
+}
+
+export interface NotebookEditorDto {
+    notebook: NotebookDocumentDto;
+    selections: NotebookRangeDto[];
+    visibleRanges: NotebookRangeDto[];
+    viewColumn?: number;
+}
+
+export interface NotebookEditorSelectionChangeEventDto {
+    notebookEditor: NotebookEditorDto;
+    selections: NotebookRangeDto[];
+}
+
+export interface NotebookEditorVisibleRangesChangeEventDto {
+    notebookEditor: NotebookEditorDto;
+    visibleRanges: NotebookRangeDto[];
+}
+
+export interface TerminalDto {
+    name: string;
+    processId?: number;
+    state: { isInteractedWith: boolean };
+    exitStatus?: { code?: number };
+}
+
+export interface WindowStateDto {
+    focused: boolean;
+}
+
+/**
+ * Payload received by the page for each event type.
+ */
+export interface EventPayloadMap {
+    [EventType.WORKSPACE_ONDIDCHANGEWORKSPACEFOLDERS]: { added: WorkspaceFolderDto[]; removed: WorkspaceFolderDto[] };
+    [EventType.WORKSPACE_ONDIDOPENTEXTDOCUMENT]: TextDocumentDto;
+    [EventType.WORKSPACE_ONDIDCLOSETEXTDOCUMENT]: TextDocumentDto;
+    [EventType.WORKSPACE_ONDIDCHANGETEXTDOCUMENT]: TextDocumentChangeEventDto;
+    [EventType.WORKSPACE_ONWILLSAVETEXTDOCUMENT]: TextDocumentWillSaveEventDto;
+    [EventType.WORKSPACE_ONDIDSAVETEXTDOCUMENT]: TextDocumentDto;
+    [EventType.WORKSPACE_ONDIDCHANGENOTEBOOKDOCUMENT]: NotebookDocumentChangeEventDto;
+    [EventType.WORKSPACE_ONDIDSAVENOTEBOOKDOCUMENT]: NotebookDocumentDto;
+    [EventType.WORKSPACE_ONDIDOPENNOTEBOOKDOCUMENT]: NotebookDocumentDto;
+    [EventType.WORKSPACE_ONDIDCLOSENOTEBOOKDOCUMENT]: NotebookDocumentDto;
+    [EventType.WORKSPACE_ONWILLCREATEFILES]: FileOperationEventDto;
+    [EventType.WORKSPACE_ONDIDCREATEFILES]: FileOperationEventDto;
+    [EventType.WORKSPACE_ONWILLDELETEFILES]: FileOperationEventDto;
+    [EventType.WORKSPACE_ONDIDDELETEFILES]: FileOperationEventDto;
+    [EventType.WORKSPACE_ONWILLRENAMEFILES]: FileRenameEventDto;
+    [EventType.WORKSPACE_ONDIDRENAMEFILES]: FileRenameEventDto;
+    [EventType.WORKSPACE_ONDIDCHANGECONFIGURATION]: ConfigurationChangeEventDto;
+    [EventType.DEBUG_ONDIDCHANGEACTIVEDEBUGSESSION]: DebugSessionDto | undefined;
+    [EventType.DEBUG_ONDIDSTARTDEBUGSESSION]: DebugSessionDto;
+    [EventType.DEBUG_ONDIDRECEIVEDEBUGSESSIONCUSTOMEVENT]: DebugSessionCustomEventDto;
+    [EventType.DEBUG_ONDIDTERMINATEDEBUGSESSION]: DebugSessionDto;
+    [EventType.DEBUG_ONDIDCHANGEBREAKPOINTS]: BreakpointsChangeEventDto;
+    [EventType.LANGUAGES_ONDIDCHANGEDIAGNOSTICS]: DiagnosticChangeEventDto;
+    [EventType.EXTENSIONS_ONDIDCHANGE]: ExtensionsChangeEventDto;
+    [EventType.TASKS_ONDIDSTARTTASK]: TaskEventDto;
+    [EventType.TASKS_ONDIDENDTASK]: TaskEventDto;
+    [EventType.TASKS_ONDIDSTARTTASKPROCESS]: TaskProcessStartEventDto;
+    [EventType.TASKS_ONDIDENDTASKPROCESS]: TaskProcessEndEventDto;
+    [EventType.WINDOW_ONDIDCHANGEACTIVETEXTEDITOR]: TextEditorDto | undefined;
+    [EventType.WINDOW_ONDIDCHANGEVISIBLETEXTEDITORS]: TextEditorDto[];
+    [EventType.WINDOW_ONDIDCHANGETEXTEDITORSELECTION]: TextEditorSelectionChangeEventDto;
+    [EventType.WINDOW_ONDIDCHANGETEXTEDITORVISIBLERANGES]: TextEditorVisibleRangesChangeEventDto;
+    [EventType.WINDOW_ONDIDCHANGETEXTEDITOROPTIONS]: TextEditorOptionsChangeEventDto;
+    [EventType.WINDOW_ONDIDCHANGETEXTEDITORVIEWCOLUMN]: TextEditorViewColumnChangeEventDto;
+    [EventType.WINDOW_ONDIDCHANGEVISIBLENOTEBOOKEDITORS]: NotebookEditorDto[];
+    [EventType.WINDOW_ONDIDCHANGEACTIVENOTEBOOKEDITOR]: NotebookEditorDto | undefined;
+    [EventType.WINDOW_ONDIDCHANGENOTEBOOKEDITORSELECTION]: NotebookEditorSelectionChangeEventDto;
+    [EventType.WINDOW_ONDIDCHANGENOTEBOOKEDITORVISIBLERANGES]: NotebookEditorVisibleRangesChangeEventDto;
+    [EventType.WINDOW_ONDIDCHANGEACTIVETERMINAL]: TerminalDto | undefined;
+    [EventType.WINDOW_ONDIDOPENTERMINAL]: TerminalDto;
+    [EventType.WINDOW_ONDIDCLOSETERMINAL]: TerminalDto;
+    [EventType.WINDOW_ONDIDCHANGETERMINALSTATE]: TerminalDto;
+    [EventType.WINDOW_ONDIDCHANGEWINDOWSTATE]: WindowStateDto;
+}
+
+/**
+ * Handler of an event defined in EventType.
+ */
+export type EventHandler<K extends EventType> = (eventType: K, event: EventPayloadMap[K]) => void;
+
+/**
+ * Conditions an event must meet to be sent to a page, evaluated by the plugin backend.
+ * Each condition is matched against the resources the event is about, e.g. the document of a text editor event.
+ * An event is sent if one of its resources meets all conditions, events without such a resource are dropped.
+ */
+export interface EventFilter {
+    /**
+     * Glob pattern matched against the path of the resource, e.g. '**\/*.ts'.
+     */
+    uri?: string;
+    languageId?: string | string[];
+    scheme?: string | string[];
+
+    /**
+     * Type of the debug session, e.g. 'node'.
+     */
+    debugType?: string | string[];
+}
+
+/**
+ * Limit the rate of events sent to a page.
+ * debounce: send the latest event once no event is fired for the wait time.
+ * throttle: send at most one event per wait time, the latest event is sent at the end of the wait time.
+ * coalesce: collect events for the wait time, then send the latest event of each resource.
+ */
+export interface EventRateLimit {
+    policy: 'debounce' | 'throttle' | 'coalesce';
+    wait: number;
+}
+
+export interface SubscribeOptions {
+    filter?: EventFilter;
+    rateLimit?: EventRateLimit;
+}
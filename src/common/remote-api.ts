@@ -0,0 +1,73 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Type of the value a Promise resolves to, like Awaited, which is only available from TypeScript 4.5 on.
+ */
+export type UnwrapPromise<T> = T extends PromiseLike<infer U> ? UnwrapPromise<U> : T;
+
+/**
+ * Functions of a contract as seen from the remote side, every function returns a Promise.
+ */
+export type RemoteApi<T> = {
+    [K in keyof T]: T[K] extends (...args: infer A) => infer R ? (...args: A) => Promise<UnwrapPromise<R>> : never;
+};
+
+/**
+ * Functions a class must implement to fulfill a contract, either synchronously or asynchronously.
+ */
+export type ContractImplementation<T> = {
+    [K in keyof T]: T[K] extends (...args: infer A) => infer R
+        ? (...args: A) => UnwrapPromise<R> | Promise<UnwrapPromise<R>>
+        : T[K];
+};
+
+/**
+ * Build the identifier a contract function is exposed with.
+ * @param namespace prefix of the identifiers, e.g. 'myBackend' for functions exposed as 'myBackend.fetch'
+ * @param func name of the function in the contract
+ */
+export function contractFunctionIdentifier(namespace: string | undefined, func: string): string {
+    return namespace ? `${namespace}.${func}` : func;
+}
+
+/**
+ * Check at compile time that a backend or frontend class implements the contract shared with the other side.
+ * Functions of the contract must still be exposed with @expose, using the identifier '<namespace>.<function>'.
+ * @example
+ * ```
+ *     @exposable
+ *     @implementsContract<MyBackendApi>()
+ *     export class MyBackend extends AbstractBackend {
+ *         @expose('myBackend.fetch')
+ *         public fetch(id: string): Promise<Item> { ... }
+ *     }
+ * ```
+ */
+export function implementsContract<T>() {
+    return <C extends new (...args: any[]) => ContractImplementation<T>>(constructor: C): C => constructor;
+}
+
+/**
+ * Create a proxy that turns function calls into remote calls.
+ * @param call function that makes the remote call
+ * @param namespace prefix of the identifiers of the remote functions
+ */
+export function createRemoteApi<T>(
+    call: (identifier: string, ...args: any[]) => Promise<any>,
+    namespace?: string
+): RemoteApi<T> {
+    return new Proxy({} as RemoteApi<T>, {
+        get: (target, property) => {
+            // the proxy is not a thenable, so that it can be returned from async functions
+            if (typeof property !== 'string' || property === 'then') {
+                return undefined;
+            }
+            return (...args: any[]) => call(contractFunctionIdentifier(namespace, property), ...args);
+        }
+    });
+}
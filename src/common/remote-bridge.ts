@@ -0,0 +1,41 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { PluginApiData } from './plugin-common';
+
+/**
+ * Types of the messages exchanged between a remote page and the bridge of its wrapper webview.
+ * The remote page sends hello, the bridge answers with welcome once the origin of the page is allowed.
+ */
+export const bridgeMessageTypes = {
+    hello: 'codearts.bridge.hello',
+    welcome: 'codearts.bridge.welcome',
+    setState: 'codearts.bridge.setState'
+};
+
+/**
+ * Data a remote page gets through acquireCloudidePluginApi, the paths of the plugin and the options of the webview
+ * are not sent to remote pages.
+ */
+export type RemotePluginApiData = Omit<PluginApiData, 'extensionPath' | 'webviewOptions' | 'resourceBaseUri'>;
+
+/**
+ * Answer of the bridge to the hello of the remote page.
+ */
+export interface BridgeWelcome {
+    type: string;
+
+    /**
+     * Data the remote page gets through acquireCloudidePluginApi.
+     */
+    pluginApiData: RemotePluginApiData;
+
+    /**
+     * State of the webview, the remote page gets it through acquireVsCodeApi().getState().
+     * The bridge only keeps the page state of what the remote page sets.
+     */
+    state?: any;
+}
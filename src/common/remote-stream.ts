@@ -0,0 +1,184 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+// keys of the objects that replace async iterables and callbacks in remote calls
+const streamMarkerKey = '$stream';
+const callbackMarkerKey = '$callback';
+
+type RemoteCall = (func: string, ...args: any[]) => Promise<any>;
+
+function isAsyncIterable(value: any): value is AsyncIterable<any> {
+    return !!value && typeof value[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Carry async iterables returned by exposed functions and callbacks passed as arguments across scopes.
+ *
+ * An async iterable returned by an exposed function is kept by the callee and the caller receives an iterable that
+ * pulls one value at a time with 'plugin.streamNext', so the callee only produces values as fast as the caller consumes
+ * them. The stream is closed with 'plugin.streamReturn' when the caller stops iterating, or when the caller goes away.
+ *
+ * A function passed as an argument, e.g. an onProgress callback, is kept by the caller until the call completes or
+ * the returned stream ends, the callee receives a function that invokes it with 'plugin.invokeCallback'.
+ */
+export class RemoteStreams {
+    private readonly idPrefix = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2)}-`;
+    private sequence = 0;
+    // iterators of streams returned to remote callers, with the client id of the caller
+    private readonly streams: Map<string, { iterator: AsyncIterator<any>; owner: string }> = new Map();
+    private readonly callbacks: Map<string, (...args: any[]) => any> = new Map();
+
+    /**
+     * Replace the functions in the arguments of a call with markers.
+     * @returns arguments to send and the function to release the callbacks once the call completes
+     */
+    exportCallbacks(args: any[]): { args: any[]; release: () => void } {
+        const ids: string[] = [];
+        const callArgs = args.map((arg) => {
+            if (typeof arg !== 'function') {
+                return arg;
+            }
+            const id = `${this.idPrefix}${++this.sequence}`;
+            this.callbacks.set(id, arg);
+            ids.push(id);
+            return { [callbackMarkerKey]: id };
+        });
+        return { args: callArgs, release: () => ids.forEach((id) => this.callbacks.delete(id)) };
+    }
+
+    /**
+     * Replace the callback markers in the arguments of a received call with functions that invoke the callbacks.
+     * @param caller client id of the caller
+     * @param args arguments of the call
+     * @param call function that makes a remote call
+     */
+    reviveCallbacks(caller: string, args: any[] | undefined, call: RemoteCall): any[] | undefined {
+        return args?.map((arg) => {
+            const id = arg && arg[callbackMarkerKey];
+            if (typeof id !== 'string') {
+                return arg;
+            }
+            return (...callbackArgs: any[]) => {
+                call(`${caller}::plugin.invokeCallback`, id, ...callbackArgs).catch(() => undefined);
+            };
+        });
+    }
+
+    /**
+     * Invoke a callback passed to a remote call, called by the callee through 'plugin.invokeCallback'.
+     */
+    invokeCallback(id: string, ...args: any[]): void {
+        const callback = this.callbacks.get(id);
+        if (callback) {
+            callback(...args);
+        }
+    }
+
+    /**
+     * Replace an async iterable returned by an exposed function with a stream marker before the reply is sent.
+     * @param message reply of a call
+     */
+    exportResult(message: any): any {
+        if (!message.notify || !message.success || !isAsyncIterable(message.ret)) {
+            return message;
+        }
+        // the reply is posted to every webview, the stream is registered once
+        if (!this.streams.has(message.id)) {
+            this.streams.set(message.id, { iterator: message.ret[Symbol.asyncIterator](), owner: message.to });
+        }
+        return { ...message, ret: { [streamMarkerKey]: message.id } };
+    }
+
+    /**
+     * Turn a stream marker in the result of a call into an async iterable that pulls values from the callee.
+     * @param ret result of the call
+     * @param target client id of the callee
+     * @param call function that makes a remote call
+     * @param onEnd called when the call completes without a stream, or when the stream ends
+     */
+    importResult(ret: any, target: string, call: RemoteCall, onEnd: () => void): any {
+        const id = ret && ret[streamMarkerKey];
+        if (typeof id !== 'string') {
+            onEnd();
+            return ret;
+        }
+        let done = false;
+        const end = () => {
+            done = true;
+            onEnd();
+        };
+        const iterator: AsyncIterableIterator<any> = {
+            [Symbol.asyncIterator]: () => iterator,
+            next: async () => {
+                if (done) {
+                    return { done: true, value: undefined };
+                }
+                try {
+                    const result = await call(`${target}::plugin.streamNext`, id);
+                    if (result.done) {
+                        end();
+                    }
+                    return result;
+                } catch (e) {
+                    end();
+                    throw e;
+                }
+            },
+            return: async (value?: any) => {
+                if (!done) {
+                    end();
+                    await call(`${target}::plugin.streamReturn`, id);
+                }
+                return { done: true, value };
+            }
+        };
+        return iterator;
+    }
+
+    /**
+     * Pull the next value of a stream, called by the caller through 'plugin.streamNext'.
+     */
+    async next(id: string): Promise<IteratorResult<any>> {
+        const stream = this.streams.get(id);
+        if (!stream) {
+            return { done: true, value: undefined };
+        }
+        try {
+            const result = await stream.iterator.next();
+            if (result.done) {
+                this.streams.delete(id);
+            }
+            return { done: !!result.done, value: result.value };
+        } catch (e) {
+            this.streams.delete(id);
+            throw e;
+        }
+    }
+
+    /**
+     * Close a stream, called by the caller through 'plugin.streamReturn'.
+     */
+    async return(id: string): Promise<void> {
+        const stream = this.streams.get(id);
+        if (stream) {
+            this.streams.delete(id);
+            await stream.iterator.return?.();
+        }
+    }
+
+    /**
+     * Close the streams of a caller that went away.
+     * @param owner client id of the caller
+     */
+    disposeOwner(owner: string): void {
+        this.streams.forEach((stream, id) => {
+            if (stream.owner === owner) {
+                this.return(id).catch(() => undefined);
+            }
+        });
+    }
+}
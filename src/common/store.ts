@@ -0,0 +1,121 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { JsonPatchOperation, applyPatch, diff } from './json-patch';
+
+/**
+ * State of a store with the number of changes made to it, sent to a page when it starts to use the store.
+ */
+export interface StoreSnapshot<T = any> {
+    state: T;
+    version: number;
+}
+
+export interface StoreChangeEvent<T = any> {
+    state: T;
+    /**
+     * Operations that turned the previous state into the new one.
+     */
+    patch: JsonPatchOperation[];
+    version: number;
+}
+
+/**
+ * JSON state that notifies its listeners of each change with a patch.
+ * The plugin owns the store, pages hold a copy kept in sync by applying the patches of the plugin.
+ * The state is never changed in place, each change produces a new state object.
+ */
+export class ObservableStore<T = any> {
+    private _state: T;
+    private _version: number;
+    private listeners: ((event: StoreChangeEvent<T>) => void)[] = [];
+
+    /**
+     * @param reportError report a listener that failed
+     */
+    constructor(
+        readonly name: string,
+        snapshot: StoreSnapshot<T>,
+        private readonly reportError: (message: string) => void
+    ) {
+        this._state = snapshot.state;
+        this._version = snapshot.version;
+    }
+
+    get state(): T {
+        return this._state;
+    }
+
+    /**
+     * Number of changes made to the store, a page copy has the same version as the store once it is in sync.
+     */
+    get version(): number {
+        return this._version;
+    }
+
+    getSnapshot(): StoreSnapshot<T> {
+        return { state: this._state, version: this._version };
+    }
+
+    /**
+     * Replace the state, listeners are only notified if the new state differs from the current one.
+     * @param update new state, or function that returns the new state from the current one without changing it
+     * @returns operations that turned the previous state into the new one
+     */
+    setState(update: T | ((state: T) => T)): JsonPatchOperation[] {
+        const state = typeof update === 'function' ? (update as (state: T) => T)(this._state) : update;
+        const patch = diff(this._state, state);
+        if (patch.length > 0) {
+            this.commit(state, patch, this._version + 1);
+        }
+        return patch;
+    }
+
+    /**
+     * Apply the operations of a patch.
+     * @param version version of the store after the patch, patches already applied are ignored
+     * @returns false if patches before this one were missed, the copy has to be replaced with a snapshot
+     */
+    applyPatch(patch: JsonPatchOperation[], version = this._version + 1): boolean {
+        if (version !== this._version + 1) {
+            return version <= this._version;
+        }
+        this.commit(applyPatch(this._state, patch), patch, version);
+        return true;
+    }
+
+    /**
+     * Replace the state and the version with a snapshot of the store, e.g. when a page copy falls behind.
+     */
+    reset(snapshot: StoreSnapshot<T>): void {
+        if (snapshot.version === this._version) {
+            return;
+        }
+        this.commit(snapshot.state, diff(this._state, snapshot.state), snapshot.version);
+    }
+
+    onDidChange(listener: (event: StoreChangeEvent<T>) => void): { dispose(): void } {
+        this.listeners.push(listener);
+        return {
+            dispose: () => {
+                this.listeners = this.listeners.filter((registered) => registered !== listener);
+            }
+        };
+    }
+
+    private commit(state: T, patch: JsonPatchOperation[], version: number): void {
+        this._state = state;
+        this._version = version;
+        const event: StoreChangeEvent<T> = { state, patch, version };
+        this.listeners.forEach((listener) => {
+            try {
+                listener(event);
+            } catch (e) {
+                this.reportError(`listener of store ${this.name} failed: ${(<any>e)?.message || e}`);
+            }
+        });
+    }
+}
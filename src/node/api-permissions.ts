@@ -0,0 +1,141 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as cloudide from '@codearts/plugin';
+import { ApiPermissionError, WebviewOptions } from '../common/plugin-common';
+
+/**
+ * Name of the function exposed by the plugin backend to proxy calls to the CodeArts API.
+ */
+export const apiProxyFunction = 'codearts';
+
+/**
+ * Test whether the api, in the format of 'module.property', matches a permission pattern.
+ * Patterns are 'module.property', 'module.*' or '*'.
+ */
+export function matchApiPermission(pattern: string, api: string): boolean {
+    if (pattern === '*' || pattern === api) {
+        return true;
+    }
+    return pattern.endsWith('.*') && api.startsWith(pattern.substring(0, pattern.length - 1));
+}
+
+/**
+ * Test whether every api matched by the pattern is also matched by the covering pattern.
+ */
+function coversApiPermission(covering: string, pattern: string): boolean {
+    if (covering === '*' || covering === pattern) {
+        return true;
+    }
+    return covering.endsWith('.*') && pattern !== '*' && pattern.startsWith(covering.substring(0, covering.length - 1));
+}
+
+/**
+ * Return the permissions allowed by both lists, undefined if neither list restricts the api.
+ */
+export function intersectApiPermissions(first?: string[], second?: string[]): string[] | undefined {
+    if (!first || !second) {
+        return first || second;
+    }
+    const intersection = [
+        ...first.filter((pattern) => second.some((covering) => coversApiPermission(covering, pattern))),
+        ...second.filter((pattern) => first.some((covering) => coversApiPermission(covering, pattern)))
+    ];
+    return [...new Set(intersection)];
+}
+
+/**
+ * Create the error returned to the page when a call is rejected.
+ */
+export function createApiPermissionError(viewType: string, api: string, reason: string): ApiPermissionError {
+    return {
+        name: 'ApiPermissionError',
+        code: 'PERMISSION_DENIED',
+        message: `${api} is not allowed to be called by ${viewType}: ${reason}`,
+        viewType,
+        api
+    };
+}
+
+/**
+ * Check calls from pages to the CodeArts API against the permissions declared in the "codearts" section
+ * of package.json, narrowed by the permissions declared in WebviewOptions.
+ */
+export class ApiPermissionChecker {
+    // decisions of the user on sensitive api, kept for the session
+    private readonly decisions: Map<string, Promise<boolean>> = new Map();
+
+    constructor(private readonly manifest: any) {}
+
+    /**
+     * Return the permissions of the view type, undefined if nothing is declared and the page is local.
+     * WebviewOptions cannot grant more than package.json declares for the view type.
+     */
+    getPermissions(options: WebviewOptions): string[] | undefined {
+        const permissions = intersectApiPermissions(
+            this.manifest?.codearts?.apiPermissions?.[options.viewType],
+            options.apiPermissions
+        );
+        // remote pages may call no API unless it is declared
+        return permissions || (options.viewUrl?.startsWith('local:') ? undefined : []);
+    }
+
+    /**
+     * Return the options of a webview created by a page, with permissions no wider than those of the page.
+     * @param creator options of the webview of the page
+     * @param options options the page passed for the new webview
+     */
+    inherit<T extends WebviewOptions>(creator: WebviewOptions, options: T): T {
+        const apiPermissions = intersectApiPermissions(this.getPermissions(creator), options.apiPermissions);
+        const sensitiveApis = this.merge(options.sensitiveApis, this.getSensitiveApis(creator));
+        return { ...options, apiPermissions, sensitiveApis };
+    }
+
+    /**
+     * Check the call and return the error to reply with if it is rejected.
+     * @param options options of the webview that makes the call
+     * @param api called api in the format of 'module.property'
+     */
+    async check(options: WebviewOptions, api: string): Promise<ApiPermissionError | undefined> {
+        const permissions = this.getPermissions(options);
+        if (!permissions) {
+            return undefined;
+        }
+        if (!permissions.some((pattern) => matchApiPermission(pattern, api))) {
+            return createApiPermissionError(options.viewType, api, 'permission not declared');
+        }
+        const sensitiveApis = this.getSensitiveApis(options) || [];
+        if (!sensitiveApis.some((pattern) => matchApiPermission(pattern, api))) {
+            return undefined;
+        }
+        const key = `${options.viewType}::${api}`;
+        let decision = this.decisions.get(key);
+        if (!decision) {
+            decision = this.askUser(options, api);
+            this.decisions.set(key, decision);
+        }
+        return (await decision) ? undefined : createApiPermissionError(options.viewType, api, 'rejected by user');
+    }
+
+    private getSensitiveApis(options: WebviewOptions): string[] | undefined {
+        return this.merge(options.sensitiveApis, this.manifest?.codearts?.sensitiveApis?.[options.viewType]);
+    }
+
+    private async askUser(options: WebviewOptions, api: string): Promise<boolean> {
+        const allow = 'Allow';
+        const answer = await cloudide.window.showWarningMessage(
+            `"${options.title}" is requesting to call ${api}. Allow it for this session?`,
+            { modal: true },
+            allow
+        );
+        return answer === allow;
+    }
+
+    private merge(...permissionLists: (string[] | undefined)[]): string[] | undefined {
+        const declared = permissionLists.filter((permissions) => Array.isArray(permissions)) as string[][];
+        return declared.length > 0 ? ([] as string[]).concat(...declared) : undefined;
+    }
+}
@@ -0,0 +1,64 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import { v4 as uuid } from 'uuid';
+import { ContentSecurityPolicyOptions } from '../common/plugin-common';
+
+/**
+ * Generate a nonce for the scripts of a page, a new nonce must be used each time the page is rendered.
+ */
+export function createNonce(): string {
+    return uuid().replace(/-/g, '');
+}
+
+function serialize(directives: { [directive: string]: string[] }): string {
+    return Object.keys(directives)
+        .map((directive) => [directive, ...directives[directive]].join(' '))
+        .join('; ');
+}
+
+/**
+ * Policy of a local page, scripts must carry the nonce and other resources must be loaded from the plugin
+ * or from the sources declared in the options. Scripts loaded by scripts with the nonce, e.g. the chunks imported
+ * by a bundle, are allowed by 'strict-dynamic'.
+ * @param nonce nonce of the scripts
+ * @param resourceSource source of the local resources of the plugin, e.g. 'theia-resource:'
+ * @param options extra sources declared in WebviewOptions
+ */
+export function localPagePolicy(
+    nonce: string,
+    resourceSource: string,
+    options: ContentSecurityPolicyOptions = {}
+): string {
+    return serialize({
+        'default-src': ["'none'"],
+        // browsers without 'strict-dynamic' load the scripts of the plugin by their source
+        'script-src': options.allowInlineScripts
+            ? [resourceSource, "'unsafe-inline'", ...(options.scriptSrc || [])]
+            : [`'nonce-${nonce}'`, "'strict-dynamic'", resourceSource, ...(options.scriptSrc || [])],
+        // theme styles are inlined by the IDE
+        'style-src': [resourceSource, "'unsafe-inline'", ...(options.styleSrc || [])],
+        'img-src': [resourceSource, 'data:', ...(options.imgSrc || [])],
+        'font-src': [resourceSource, ...(options.fontSrc || [])],
+        'connect-src': [resourceSource, ...(options.connectSrc || [])],
+        'frame-src': [resourceSource, ...(options.frameSrc || [])],
+        'media-src': [resourceSource, ...(options.mediaSrc || [])],
+        'worker-src': [resourceSource, ...(options.workerSrc || [])]
+    });
+}
+
+/**
+ * Policy of the wrapper page that embeds a remote page in an iframe.
+ * @param nonce nonce of the scripts
+ * @param frameSource origin of the remote page, origins allowed by the remote bridge are separated by spaces
+ */
+export function iframeWrapperPolicy(nonce: string, frameSource: string): string {
+    return serialize({
+        'default-src': ["'none'"],
+        'script-src': [`'nonce-${nonce}'`],
+        'style-src': ["'unsafe-inline'"],
+        'frame-src': [frameSource]
+    });
+}
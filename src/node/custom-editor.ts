@@ -0,0 +1,91 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as cloudide from '@codearts/plugin';
+import { CustomDocumentEdit, CustomDocumentSnapshot, TextDocumentChangeEventDto } from '../common/plugin-common';
+import { serializeTextDocument, serializeTextDocumentChangeEvent } from './event-serializers';
+
+/**
+ * Text document edited by the page of a custom editor.
+ * Changes of the document, made by the page or elsewhere, are sent to the page so that its copy stays in sync.
+ */
+export class CustomDocumentSession {
+    private readonly disposables: cloudide.Disposable[] = [];
+
+    /**
+     * @param document document opened in the custom editor
+     * @param notifyPage send a change of the document to the page
+     * @param focusEditor make the custom editor the active editor
+     */
+    constructor(
+        readonly document: cloudide.TextDocument,
+        private readonly notifyPage: (event: TextDocumentChangeEventDto) => void,
+        private readonly focusEditor: () => void
+    ) {
+        this.disposables.push(
+            cloudide.workspace.onDidChangeTextDocument((event) => {
+                if (event.document === this.document) {
+                    this.notifyPage(serializeTextDocumentChangeEvent(event));
+                }
+            }),
+            // saving changes no text, the page is told that the document is no longer dirty
+            cloudide.workspace.onDidSaveTextDocument((document) => {
+                if (document === this.document) {
+                    this.notifyPage({ document: serializeTextDocument(document), contentChanges: [] });
+                }
+            })
+        );
+    }
+
+    getSnapshot(): CustomDocumentSnapshot {
+        return { document: serializeTextDocument(this.document), text: this.document.getText() };
+    }
+
+    /**
+     * Apply the edits to the document as one undo step, offsets refer to the text before any edit.
+     */
+    async applyEdit(edits: CustomDocumentEdit[]): Promise<boolean> {
+        const workspaceEdit = new cloudide.WorkspaceEdit();
+        edits.forEach((edit) => {
+            const range = new cloudide.Range(
+                this.document.positionAt(edit.offset),
+                this.document.positionAt(edit.offset + edit.length)
+            );
+            workspaceEdit.replace(this.document.uri, range, edit.text);
+        });
+        return cloudide.workspace.applyEdit(workspaceEdit);
+    }
+
+    async save(): Promise<boolean> {
+        return this.document.save();
+    }
+
+    /**
+     * Undo and redo act on the active editor, the custom editor is made active first.
+     */
+    async execute(command: 'undo' | 'redo' | 'revert'): Promise<void> {
+        if (command === 'revert') {
+            await this.revert();
+            return;
+        }
+        this.focusEditor();
+        await cloudide.commands.executeCommand(command);
+    }
+
+    /**
+     * Revert the document to the content of its file, the IDE reloads the file and clears the dirty state.
+     * The document is passed to the command, which would revert the active editor otherwise.
+     */
+    async revert(): Promise<boolean> {
+        await cloudide.commands.executeCommand('workbench.action.files.revert', this.document.uri);
+        return !this.document.isDirty;
+    }
+
+    dispose(): void {
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.disposables.length = 0;
+    }
+}
@@ -0,0 +1,200 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { EventFilter, EventRateLimit, UriDto } from '../common/plugin-common';
+
+/**
+ * A resource an event is about.
+ */
+interface EventSubject {
+    uri?: UriDto;
+    languageId?: string;
+    debugType?: string;
+}
+
+/**
+ * Find the resources of a serialized event, e.g. the documents of text editor events or the session of debug events.
+ */
+function getEventSubjects(event: any): EventSubject[] {
+    if (!event || typeof event !== 'object') {
+        return [];
+    }
+    if (Array.isArray(event)) {
+        return event.reduce((subjects: EventSubject[], item: any) => subjects.concat(getEventSubjects(item)), []);
+    }
+    // text document
+    if (event.uri && typeof event.languageId === 'string') {
+        return [{ uri: event.uri, languageId: event.languageId }];
+    }
+    // debug session
+    if (typeof event.type === 'string' && event.configuration) {
+        return [{ debugType: event.type }];
+    }
+    const nested = event.document || event.textEditor || event.notebook || event.notebookEditor || event.session;
+    if (nested) {
+        return getEventSubjects(nested);
+    }
+    if (Array.isArray(event.files)) {
+        return event.files.map((file: any) => ({ uri: file.newUri || file }));
+    }
+    if (Array.isArray(event.uris)) {
+        return event.uris.map((uri: UriDto) => ({ uri }));
+    }
+    if (event.uri) {
+        return [{ uri: event.uri }];
+    }
+    return [];
+}
+
+const globCache: Map<string, RegExp> = new Map();
+
+/**
+ * Convert a glob pattern to RegExp, supports '**', '*', '?' and '{a,b}'.
+ */
+function globToRegExp(pattern: string): RegExp {
+    let regExp = globCache.get(pattern);
+    if (regExp) {
+        return regExp;
+    }
+    let source = '';
+    let inGroup = false;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // '**/' matches zero or more directories
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            inGroup = true;
+            source += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            source += ')';
+        } else if (char === ',' && inGroup) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+    regExp = new RegExp(`^${source}$`);
+    globCache.set(pattern, regExp);
+    return regExp;
+}
+
+function matchValue(expected: string | string[] | undefined, actual: string | undefined): boolean {
+    if (expected === undefined) {
+        return true;
+    }
+    if (actual === undefined) {
+        return false;
+    }
+    return Array.isArray(expected) ? expected.indexOf(actual) >= 0 : expected === actual;
+}
+
+function matchSubject(filter: EventFilter, subject: EventSubject): boolean {
+    if (filter.uri !== undefined && (!subject.uri || !globToRegExp(filter.uri).test(subject.uri.path))) {
+        return false;
+    }
+    return (
+        matchValue(filter.scheme, subject.uri?.scheme) &&
+        matchValue(filter.languageId, subject.languageId) &&
+        matchValue(filter.debugType, subject.debugType)
+    );
+}
+
+/**
+ * Test whether the serialized event passes the filter.
+ * @param filter filter of the subscription, all events pass if not defined
+ * @param event event serialized by the event serializer
+ */
+export function matchEventFilter(filter: EventFilter | undefined, event: any): boolean {
+    if (!filter) {
+        return true;
+    }
+    return getEventSubjects(event).some((subject) => matchSubject(filter, subject));
+}
+
+/**
+ * Apply the rate limit of a subscription to the events passed to push().
+ */
+export class EventRateLimiter {
+    private timer?: NodeJS.Timeout;
+    private pending: Map<string, any> = new Map();
+
+    constructor(private readonly rateLimit: EventRateLimit, private readonly deliver: (event: any) => void) {}
+
+    push(event: any): void {
+        switch (this.rateLimit.policy) {
+            case 'debounce':
+                this.pending.set('', event);
+                if (this.timer) {
+                    clearTimeout(this.timer);
+                }
+                this.timer = setTimeout(() => this.flush(), this.rateLimit.wait);
+                break;
+            case 'throttle':
+                if (this.timer) {
+                    this.pending.set('', event);
+                } else {
+                    this.deliver(event);
+                    this.startThrottle();
+                }
+                break;
+            case 'coalesce': {
+                const key = getEventSubjects(event)
+                    .map((subject) => subject.uri?.external || subject.debugType || '')
+                    .join(',');
+                // the latest event replaces the pending one, in the order the resources were first changed
+                this.pending.set(key, event);
+                if (!this.timer) {
+                    this.timer = setTimeout(() => this.flush(), this.rateLimit.wait);
+                }
+                break;
+            }
+            default:
+                this.deliver(event);
+        }
+    }
+
+    private startThrottle() {
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            if (this.pending.size > 0) {
+                this.flush();
+                this.startThrottle();
+            }
+        }, this.rateLimit.wait);
+    }
+
+    private flush() {
+        if (this.rateLimit.policy !== 'throttle') {
+            this.timer = undefined;
+        }
+        const events = [...this.pending.values()];
+        this.pending.clear();
+        events.forEach((event) => this.deliver(event));
+    }
+
+    /**
+     * Drop pending events.
+     */
+    dispose(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.pending.clear();
+    }
+}
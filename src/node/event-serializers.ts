@@ -0,0 +1,395 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as cloudide from '@codearts/plugin';
+import {
+    EventType,
+    EventPayloadMap,
+    UriDto,
+    PositionDto,
+    RangeDto,
+    SelectionDto,
+    WorkspaceFolderDto,
+    TextDocumentDto,
+    TextDocumentChangeEventDto,
+    NotebookRangeDto,
+    NotebookDocumentDto,
+    NotebookCellDto,
+    DebugSessionDto,
+    BreakpointDto,
+    ExtensionDto,
+    TaskDto,
+    TaskExecutionDto,
+    TextEditorOptionsDto,
+    TextEditorDto,
+    NotebookEditorDto,
+    TerminalDto
+} from '../common/plugin-common';
+
+/**
+ * Convert the event object fired by the IDE to the payload sent to pages.
+ * @param event event object fired by the IDE
+ * @param manifest package.json of the plugin
+ */
+export type EventSerializer<T = any> = (event: any, manifest: any) => T | Promise<T>;
+
+export type EventSerializerRegistry = { [K in EventType]: EventSerializer<EventPayloadMap[K]> };
+
+/**
+ * Copy plain data, dropping functions and values that cannot be cloned by postMessage.
+ */
+function toPlainData(value: any): any {
+    if (value === undefined) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(JSON.stringify(value));
+    } catch (e) {
+        return undefined;
+    }
+}
+
+export function serializeUri(uri: cloudide.Uri): UriDto {
+    return {
+        scheme: uri.scheme,
+        authority: uri.authority,
+        path: uri.path,
+        query: uri.query,
+        fragment: uri.fragment,
+        fsPath: uri.fsPath,
+        external: uri.toString()
+    };
+}
+
+export function serializePosition(position: cloudide.Position): PositionDto {
+    return { line: position.line, character: position.character };
+}
+
+export function serializeRange(range: cloudide.Range): RangeDto {
+    return { start: serializePosition(range.start), end: serializePosition(range.end) };
+}
+
+export function serializeSelection(selection: cloudide.Selection): SelectionDto {
+    return {
+        ...serializeRange(selection),
+        anchor: serializePosition(selection.anchor),
+        active: serializePosition(selection.active),
+        isReversed: selection.isReversed
+    };
+}
+
+export function serializeWorkspaceFolder(folder: cloudide.WorkspaceFolder): WorkspaceFolderDto {
+    return { uri: serializeUri(folder.uri), name: folder.name, index: folder.index };
+}
+
+export function serializeTextDocument(document: cloudide.TextDocument): TextDocumentDto {
+    return {
+        uri: serializeUri(document.uri),
+        fileName: document.fileName,
+        languageId: document.languageId,
+        version: document.version,
+        isDirty: document.isDirty,
+        isUntitled: document.isUntitled,
+        isClosed: document.isClosed,
+        lineCount: document.lineCount,
+        eol: document.eol === 2 ? '\r\n' : '\n'
+    };
+}
+
+export function serializeTextDocumentChangeEvent(event: cloudide.TextDocumentChangeEvent): TextDocumentChangeEventDto {
+    return {
+        document: serializeTextDocument(event.document),
+        contentChanges: event.contentChanges.map((change) => ({
+            range: serializeRange(change.range),
+            rangeOffset: change.rangeOffset,
+            rangeLength: change.rangeLength,
+            text: change.text
+        })),
+        reason: (event as any).reason
+    };
+}
+
+export function serializeNotebookRange(range: cloudide.NotebookRange): NotebookRangeDto {
+    return { start: range.start, end: range.end };
+}
+
+export function serializeNotebookDocument(notebook: cloudide.NotebookDocument): NotebookDocumentDto {
+    return {
+        uri: serializeUri(notebook.uri),
+        notebookType: notebook.notebookType,
+        version: notebook.version,
+        isDirty: notebook.isDirty,
+        isUntitled: notebook.isUntitled,
+        isClosed: notebook.isClosed,
+        cellCount: notebook.cellCount,
+        metadata: toPlainData(notebook.metadata) || {}
+    };
+}
+
+export function serializeNotebookCell(cell: cloudide.NotebookCell): NotebookCellDto {
+    return {
+        index: cell.index,
+        kind: cell.kind,
+        document: serializeTextDocument(cell.document),
+        metadata: toPlainData(cell.metadata) || {}
+    };
+}
+
+export function serializeDebugSession(session: cloudide.DebugSession): DebugSessionDto {
+    return {
+        id: session.id,
+        type: session.type,
+        name: session.name,
+        workspaceFolder: session.workspaceFolder ? serializeWorkspaceFolder(session.workspaceFolder) : undefined,
+        configuration: toPlainData(session.configuration) || {}
+    };
+}
+
+export function serializeBreakpoint(breakpoint: cloudide.Breakpoint): BreakpointDto {
+    const sourceBreakpoint = breakpoint as cloudide.SourceBreakpoint;
+    const functionBreakpoint = breakpoint as cloudide.FunctionBreakpoint;
+    return {
+        id: breakpoint.id,
+        enabled: breakpoint.enabled,
+        condition: breakpoint.condition,
+        hitCondition: breakpoint.hitCondition,
+        logMessage: breakpoint.logMessage,
+        location: sourceBreakpoint.location
+            ? {
+                  uri: serializeUri(sourceBreakpoint.location.uri),
+                  range: serializeRange(sourceBreakpoint.location.range)
+              }
+            : undefined,
+        functionName: functionBreakpoint.functionName
+    };
+}
+
+export function serializeExtension(extension: cloudide.Extension<any>): ExtensionDto {
+    return {
+        id: extension.id,
+        extensionPath: extension.extensionPath,
+        isActive: extension.isActive,
+        extensionKind: extension.extensionKind,
+        version: extension.packageJSON?.version,
+        displayName: extension.packageJSON?.displayName
+    };
+}
+
+export function serializeTask(task: cloudide.Task): TaskDto {
+    let scope: TaskDto['scope'];
+    if (typeof task.scope === 'object') {
+        scope = serializeWorkspaceFolder(task.scope);
+    } else if (task.scope !== undefined) {
+        // TaskScope.Global = 1, TaskScope.Workspace = 2
+        scope = task.scope === 1 ? 'global' : 'workspace';
+    }
+    return {
+        name: task.name,
+        source: task.source,
+        definition: toPlainData(task.definition) || {},
+        scope,
+        detail: task.detail,
+        group: task.group?.id,
+        isBackground: task.isBackground
+    };
+}
+
+export function serializeTaskExecution(execution: cloudide.TaskExecution): TaskExecutionDto {
+    return { task: serializeTask(execution.task) };
+}
+
+export function serializeTextEditorOptions(options: cloudide.TextEditorOptions): TextEditorOptionsDto {
+    return {
+        tabSize: options.tabSize,
+        insertSpaces: options.insertSpaces,
+        cursorStyle: options.cursorStyle,
+        lineNumbers: options.lineNumbers
+    };
+}
+
+export function serializeTextEditor(editor: cloudide.TextEditor): TextEditorDto {
+    return {
+        document: serializeTextDocument(editor.document),
+        selection: serializeSelection(editor.selection),
+        selections: editor.selections.map(serializeSelection),
+        visibleRanges: editor.visibleRanges.map(serializeRange),
+        options: serializeTextEditorOptions(editor.options),
+        viewColumn: editor.viewColumn
+    };
+}
+
+export function serializeNotebookEditor(editor: cloudide.NotebookEditor): NotebookEditorDto {
+    return {
+        notebook: serializeNotebookDocument(editor.notebook),
+        selections: editor.selections.map(serializeNotebookRange),
+        visibleRanges: editor.visibleRanges.map(serializeNotebookRange),
+        viewColumn: editor.viewColumn
+    };
+}
+
+export async function serializeTerminal(terminal: cloudide.Terminal): Promise<TerminalDto> {
+    return {
+        name: terminal.name,
+        processId: await terminal.processId,
+        state: { isInteractedWith: !!terminal.state?.isInteractedWith },
+        exitStatus: terminal.exitStatus ? { code: terminal.exitStatus.code } : undefined
+    };
+}
+
+function serializeFileOperation(event: { files: readonly cloudide.Uri[] }) {
+    return { files: event.files.map(serializeUri) };
+}
+
+function serializeFileRename(event: { files: readonly { oldUri: cloudide.Uri; newUri: cloudide.Uri }[] }) {
+    return {
+        files: event.files.map((file) => ({ oldUri: serializeUri(file.oldUri), newUri: serializeUri(file.newUri) }))
+    };
+}
+
+function serializeTaskEvent(event: { execution: cloudide.TaskExecution }) {
+    return { execution: serializeTaskExecution(event.execution) };
+}
+
+/**
+ * Return the configuration sections contributed in the manifest, e.g. 'myPlugin.enabled'.
+ */
+function getContributedConfigurationSections(manifest: any): string[] {
+    const configuration = manifest?.contributes?.configuration;
+    const configurations: any[] = Array.isArray(configuration) ? configuration : configuration ? [configuration] : [];
+    const sections: string[] = [];
+    configurations.forEach((config) => {
+        sections.push(...Object.keys(config?.properties || {}));
+    });
+    return sections;
+}
+
+/**
+ * Default serializers of all events defined in EventType.
+ */
+export const defaultEventSerializers: EventSerializerRegistry = {
+    // events from workspace module
+    [EventType.WORKSPACE_ONDIDCHANGEWORKSPACEFOLDERS]: (event: cloudide.WorkspaceFoldersChangeEvent) => ({
+        added: event.added.map(serializeWorkspaceFolder),
+        removed: event.removed.map(serializeWorkspaceFolder)
+    }),
+    [EventType.WORKSPACE_ONDIDOPENTEXTDOCUMENT]: serializeTextDocument,
+    [EventType.WORKSPACE_ONDIDCLOSETEXTDOCUMENT]: serializeTextDocument,
+    [EventType.WORKSPACE_ONDIDCHANGETEXTDOCUMENT]: serializeTextDocumentChangeEvent,
+    [EventType.WORKSPACE_ONWILLSAVETEXTDOCUMENT]: (event: cloudide.TextDocumentWillSaveEvent) => ({
+        document: serializeTextDocument(event.document),
+        reason: event.reason
+    }),
+    [EventType.WORKSPACE_ONDIDSAVETEXTDOCUMENT]: serializeTextDocument,
+    [EventType.WORKSPACE_ONDIDCHANGENOTEBOOKDOCUMENT]: (event: cloudide.NotebookDocumentChangeEvent) => ({
+        notebook: serializeNotebookDocument(event.notebook),
+        metadata: toPlainData(event.metadata),
+        contentChanges: event.contentChanges.map((change) => ({
+            range: serializeNotebookRange(change.range),
+            addedCells: change.addedCells.map(serializeNotebookCell),
+            removedCells: change.removedCells.map(serializeNotebookCell)
+        })),
+        cellChanges: event.cellChanges.map((change) => ({
+            cell: serializeNotebookCell(change.cell),
+            document: change.document ? serializeTextDocument(change.document) : undefined,
+            metadata: toPlainData(change.metadata)
+        }))
+    }),
+    [EventType.WORKSPACE_ONDIDSAVENOTEBOOKDOCUMENT]: serializeNotebookDocument,
+    [EventType.WORKSPACE_ONDIDOPENNOTEBOOKDOCUMENT]: serializeNotebookDocument,
+    [EventType.WORKSPACE_ONDIDCLOSENOTEBOOKDOCUMENT]: serializeNotebookDocument,
+    [EventType.WORKSPACE_ONWILLCREATEFILES]: serializeFileOperation,
+    [EventType.WORKSPACE_ONDIDCREATEFILES]: serializeFileOperation,
+    [EventType.WORKSPACE_ONWILLDELETEFILES]: serializeFileOperation,
+    [EventType.WORKSPACE_ONDIDDELETEFILES]: serializeFileOperation,
+    [EventType.WORKSPACE_ONWILLRENAMEFILES]: serializeFileRename,
+    [EventType.WORKSPACE_ONDIDRENAMEFILES]: serializeFileRename,
+    [EventType.WORKSPACE_ONDIDCHANGECONFIGURATION]: (event: cloudide.ConfigurationChangeEvent, manifest: any) => ({
+        affectedSections: getContributedConfigurationSections(manifest).filter((section) =>
+            event.affectsConfiguration(section)
+        )
+    }),
+
+    // events from debug module
+    [EventType.DEBUG_ONDIDCHANGEACTIVEDEBUGSESSION]: (session: cloudide.DebugSession | undefined) =>
+        session ? serializeDebugSession(session) : undefined,
+    [EventType.DEBUG_ONDIDSTARTDEBUGSESSION]: serializeDebugSession,
+    [EventType.DEBUG_ONDIDRECEIVEDEBUGSESSIONCUSTOMEVENT]: (event: cloudide.DebugSessionCustomEvent) => ({
+        session: serializeDebugSession(event.session),
+        event: event.event,
+        body: toPlainData(event.body)
+    }),
+    [EventType.DEBUG_ONDIDTERMINATEDEBUGSESSION]: serializeDebugSession,
+    [EventType.DEBUG_ONDIDCHANGEBREAKPOINTS]: (event: cloudide.BreakpointsChangeEvent) => ({
+        added: event.added.map(serializeBreakpoint),
+        removed: event.removed.map(serializeBreakpoint),
+        changed: event.changed.map(serializeBreakpoint)
+    }),
+
+    // events from languages module
+    [EventType.LANGUAGES_ONDIDCHANGEDIAGNOSTICS]: (event: cloudide.DiagnosticChangeEvent) => ({
+        uris: event.uris.map(serializeUri)
+    }),
+
+    // events from plugins module, the event itself carries no data
+    [EventType.EXTENSIONS_ONDIDCHANGE]: () => ({
+        extensions: cloudide.extensions.all.map(serializeExtension)
+    }),
+
+    // events from tasks module
+    [EventType.TASKS_ONDIDSTARTTASK]: serializeTaskEvent,
+    [EventType.TASKS_ONDIDENDTASK]: serializeTaskEvent,
+    [EventType.TASKS_ONDIDSTARTTASKPROCESS]: (event: cloudide.TaskProcessStartEvent) => ({
+        ...serializeTaskEvent(event),
+        processId: event.processId
+    }),
+    [EventType.TASKS_ONDIDENDTASKPROCESS]: (event: cloudide.TaskProcessEndEvent) => ({
+        ...serializeTaskEvent(event),
+        exitCode: event.exitCode
+    }),
+
+    // events from window module
+    [EventType.WINDOW_ONDIDCHANGEACTIVETEXTEDITOR]: (editor: cloudide.TextEditor | undefined) =>
+        editor ? serializeTextEditor(editor) : undefined,
+    [EventType.WINDOW_ONDIDCHANGEVISIBLETEXTEDITORS]: (editors: readonly cloudide.TextEditor[]) =>
+        editors.map(serializeTextEditor),
+    [EventType.WINDOW_ONDIDCHANGETEXTEDITORSELECTION]: (event: cloudide.TextEditorSelectionChangeEvent) => ({
+        textEditor: serializeTextEditor(event.textEditor),
+        selections: event.selections.map(serializeSelection),
+        kind: event.kind
+    }),
+    [EventType.WINDOW_ONDIDCHANGETEXTEDITORVISIBLERANGES]: (event: cloudide.TextEditorVisibleRangesChangeEvent) => ({
+        textEditor: serializeTextEditor(event.textEditor),
+        visibleRanges: event.visibleRanges.map(serializeRange)
+    }),
+    [EventType.WINDOW_ONDIDCHANGETEXTEDITOROPTIONS]: (event: cloudide.TextEditorOptionsChangeEvent) => ({
+        textEditor: serializeTextEditor(event.textEditor),
+        options: serializeTextEditorOptions(event.options)
+    }),
+    [EventType.WINDOW_ONDIDCHANGETEXTEDITORVIEWCOLUMN]: (event: cloudide.TextEditorViewColumnChangeEvent) => ({
+        textEditor: serializeTextEditor(event.textEditor),
+        viewColumn: event.viewColumn
+    }),
+    [EventType.WINDOW_ONDIDCHANGEVISIBLENOTEBOOKEDITORS]: (editors: readonly cloudide.NotebookEditor[]) =>
+        editors.map(serializeNotebookEditor),
+    [EventType.WINDOW_ONDIDCHANGEACTIVENOTEBOOKEDITOR]: (editor: cloudide.NotebookEditor | undefined) =>
+        editor ? serializeNotebookEditor(editor) : undefined,
+    [EventType.WINDOW_ONDIDCHANGENOTEBOOKEDITORSELECTION]: (event: cloudide.NotebookEditorSelectionChangeEvent) => ({
+        notebookEditor: serializeNotebookEditor(event.notebookEditor),
+        selections: event.selections.map(serializeNotebookRange)
+    }),
+    [EventType.WINDOW_ONDIDCHANGENOTEBOOKEDITORVISIBLERANGES]: (
+        event: cloudide.NotebookEditorVisibleRangesChangeEvent
+    ) => ({
+        notebookEditor: serializeNotebookEditor(event.notebookEditor),
+        visibleRanges: event.visibleRanges.map(serializeNotebookRange)
+    }),
+    [EventType.WINDOW_ONDIDCHANGEACTIVETERMINAL]: (terminal: cloudide.Terminal | undefined) =>
+        terminal ? serializeTerminal(terminal) : undefined,
+    [EventType.WINDOW_ONDIDOPENTERMINAL]: serializeTerminal,
+    [EventType.WINDOW_ONDIDCLOSETERMINAL]: serializeTerminal,
+    [EventType.WINDOW_ONDIDCHANGETERMINALSTATE]: serializeTerminal,
+    [EventType.WINDOW_ONDIDCHANGEWINDOWSTATE]: (state: cloudide.WindowState) => ({ focused: state.focused })
+};
@@ -0,0 +1,89 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Watch the files of a local page and call back once after a burst of changes, e.g. a build writing several files.
+ * The directories of the files are watched, so that files replaced by editors that save through a rename,
+ * or deleted and written again by a build, are still watched.
+ */
+export class PageWatcher {
+    // watchers of the directories with the names of the watched files in them
+    private readonly watchers: Map<string, { watcher: fs.FSWatcher; names: Set<string> }> = new Map();
+    private timer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * @param onChange called when any of the watched files changes
+     * @param delay milliseconds to wait for more changes before calling back
+     */
+    constructor(private readonly onChange: () => void, private readonly delay = 100) {}
+
+    /**
+     * Replace the watched files, e.g. after the page is rendered again and refers to other assets.
+     * @param files absolute paths of the entry file and the assets of the page
+     */
+    watch(files: string[]): void {
+        const watched: Map<string, Set<string>> = new Map();
+        files.forEach((file) => {
+            const dir = path.dirname(file);
+            watched.set(dir, (watched.get(dir) || new Set()).add(path.basename(file)));
+        });
+        this.watchers.forEach(({ watcher }, dir) => {
+            if (!watched.has(dir)) {
+                watcher.close();
+                this.watchers.delete(dir);
+            }
+        });
+        watched.forEach((names, dir) => {
+            const dirWatcher = this.watchers.get(dir);
+            if (dirWatcher) {
+                dirWatcher.names = names;
+                return;
+            }
+            if (!fs.existsSync(dir)) {
+                return;
+            }
+            try {
+                const watcher = fs.watch(dir, { persistent: false }, (eventType, filename) => {
+                    // the name is not reported on every platform
+                    if (!filename || this.watchers.get(dir)?.names.has(filename.toString())) {
+                        this.schedule();
+                    }
+                });
+                // the watcher errors when the directory is deleted, it is watched again when the page is rendered
+                watcher.on('error', () => {
+                    watcher.close();
+                    if (this.watchers.get(dir)?.watcher === watcher) {
+                        this.watchers.delete(dir);
+                    }
+                });
+                this.watchers.set(dir, { watcher, names });
+            } catch (e) {
+                // the directory can not be watched, e.g. it is removed meanwhile
+            }
+        });
+    }
+
+    dispose(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.watchers.forEach(({ watcher }) => watcher.close());
+        this.watchers.clear();
+    }
+
+    private schedule(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.onChange();
+        }, this.delay);
+    }
+}
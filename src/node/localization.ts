@@ -0,0 +1,108 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as fs from 'fs';
+import * as path from 'path';
+import { LocaleMessages, formatMessage, localeFallbacks, lookupMessage } from '../common/message-format';
+
+const defaultLocale = 'en';
+
+/**
+ * Localization tables of the plugin for the current locale and its fallbacks,
+ * loaded from package.nls.<locale>.json and package.nls.json.
+ */
+export class Localization {
+    private tables: LocaleMessages[] = [];
+    private merged: { [key: string]: string } = {};
+    // missing keys are reported once per locale
+    private readonly reportedKeys: Set<string> = new Set();
+    private listeners: ((locale: string) => void)[] = [];
+
+    /**
+     * @param extensionPath directory of package.nls.json
+     * @param _locale initial locale
+     * @param onMissingKey called the first time a key is not found in any table of the locale
+     * @param reportError called when a localization file cannot be read
+     */
+    constructor(
+        private readonly extensionPath: string,
+        private _locale: string,
+        private readonly onMissingKey: (key: string, locale: string) => void,
+        private readonly reportError: (message: string) => void
+    ) {
+        this.load();
+    }
+
+    get locale(): string {
+        return this._locale;
+    }
+
+    /**
+     * Data passed to pages and templates, l10n has the messages of the fallback locales merged in.
+     */
+    get i18n(): { locale: string; l10n: { [key: string]: string }; tables: LocaleMessages[] } {
+        return { locale: this._locale, l10n: this.merged, tables: this.tables };
+    }
+
+    /**
+     * Switch to the locale and notify the listeners.
+     * @returns false if the locale is the current one
+     */
+    setLocale(locale: string): boolean {
+        if (locale.toLowerCase() === this._locale.toLowerCase()) {
+            return false;
+        }
+        this._locale = locale;
+        this.load();
+        this.listeners.forEach((listener) => listener(locale));
+        return true;
+    }
+
+    onDidChangeLocale(listener: (locale: string) => void): { dispose(): void } {
+        this.listeners.push(listener);
+        return {
+            dispose: () => {
+                this.listeners = this.listeners.filter((registered) => registered !== listener);
+            }
+        };
+    }
+
+    /**
+     * Return the message of the key formatted with args, or the key itself if the message is missing.
+     */
+    localize(key: string, args: any[]): string {
+        const found = lookupMessage(this.tables, key);
+        if (!found) {
+            const reportedKey = `${this._locale}::${key}`;
+            if (!this.reportedKeys.has(reportedKey)) {
+                this.reportedKeys.add(reportedKey);
+                this.onMissingKey(key, this._locale);
+            }
+            return key;
+        }
+        return formatMessage(found.message, args, found.locale);
+    }
+
+    private load(): void {
+        const files = localeFallbacks(this._locale, defaultLocale).map((locale) => ({
+            locale,
+            file: path.join(this.extensionPath, `package.nls.${locale}.json`)
+        }));
+        // package.nls.json holds the messages of the default locale
+        files.push({ locale: defaultLocale, file: path.join(this.extensionPath, 'package.nls.json') });
+        this.tables = [];
+        files.forEach(({ locale, file }) => {
+            try {
+                if (fs.existsSync(file)) {
+                    this.tables.push({ locale, l10n: JSON.parse(fs.readFileSync(file, 'utf8')) });
+                }
+            } catch (e) {
+                this.reportError(`failed to load ${file}: ${e}`);
+            }
+        });
+        this.merged = Object.assign({}, ...[...this.tables].reverse().map((table) => table.l10n));
+    }
+}
@@ -0,0 +1,235 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogLevel, LogFields } from '../common/plugin-common';
+
+const levelSeverity: { [level: string]: number } = {
+    [LogLevel.DEBUG]: 0,
+    [LogLevel.INFO]: 1,
+    [LogLevel.WARN]: 2,
+    [LogLevel.ERROR]: 3
+};
+
+export interface LogRecord {
+    level: LogLevel;
+    message: string;
+    time: Date;
+    fields: LogFields;
+}
+
+/**
+ * Destination of log records, e.g. the output channel or a file.
+ */
+export interface LogSink {
+    /**
+     * @param line record formatted by the logger
+     * @param record the record itself, for sinks that format records on their own
+     */
+    write(line: string, record: LogRecord): void;
+    dispose?(): void;
+}
+
+function formatTime(time: Date): string {
+    return time.toISOString().replace('T', ' ').substr(0, 19);
+}
+
+function formatFieldValue(value: any): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Logger with a minimum level and pluggable sinks, Plugin.logger writes to the output channel of the plugin by default.
+ */
+export class Logger {
+    /**
+     * Records below this level are dropped.
+     */
+    level: LogLevel = LogLevel.DEBUG;
+
+    /**
+     * 'text' writes '[LEVEL][time]message key=value', 'json' writes one JSON object per record.
+     */
+    format: 'text' | 'json' = 'text';
+
+    constructor(private sinks: LogSink[] = []) {}
+
+    isEnabled(level: LogLevel): boolean {
+        return levelSeverity[level] >= levelSeverity[this.level];
+    }
+
+    log(level: LogLevel, message: string, fields: LogFields = {}): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+        const record: LogRecord = { level, message, time: new Date(), fields };
+        const line = this.formatRecord(record);
+        this.sinks.forEach((sink) => {
+            try {
+                sink.write(line, record);
+            } catch (e) {
+                console.error(e);
+            }
+        });
+    }
+
+    /**
+     * Add a sink, the returned disposable removes and disposes it.
+     */
+    addSink(sink: LogSink): { dispose(): void } {
+        this.sinks.push(sink);
+        return {
+            dispose: () => {
+                this.sinks = this.sinks.filter((added) => added !== sink);
+                sink.dispose?.();
+            }
+        };
+    }
+
+    dispose(): void {
+        this.sinks.forEach((sink) => sink.dispose?.());
+        this.sinks = [];
+    }
+
+    private formatRecord(record: LogRecord): string {
+        if (this.format === 'json') {
+            return JSON.stringify({
+                ...record.fields,
+                level: record.level,
+                time: record.time.toISOString(),
+                message: record.message
+            });
+        }
+        const fields = Object.keys(record.fields)
+            .filter((key) => record.fields[key] !== undefined)
+            .map((key) => ` ${key}=${formatFieldValue(record.fields[key])}`)
+            .join('');
+        return `[${record.level}][${formatTime(record.time)}]${record.message}${fields}`;
+    }
+}
+
+/**
+ * Write to an output channel, created when the first record is written.
+ */
+export class OutputChannelSink implements LogSink {
+    private channel?: { appendLine(value: string): void; dispose(): void };
+
+    constructor(private readonly createChannel: () => { appendLine(value: string): void; dispose(): void }) {}
+
+    write(line: string): void {
+        if (!this.channel) {
+            this.channel = this.createChannel();
+        }
+        this.channel.appendLine(line);
+    }
+
+    dispose(): void {
+        this.channel?.dispose();
+        this.channel = undefined;
+    }
+}
+
+export interface RotatingFileOptions {
+    /**
+     * Name of the current log file, defaults to 'plugin.log'.
+     */
+    fileName?: string;
+
+    /**
+     * Size in bytes at which the file is rotated, defaults to 1 MB.
+     */
+    maxSize?: number;
+
+    /**
+     * Number of rotated files kept besides the current one, defaults to 3.
+     */
+    maxFiles?: number;
+}
+
+/**
+ * Append to a file in a directory, e.g. the logUri of the plugin context, see Plugin.logToFile.
+ * When the file reaches maxSize it is renamed to '<name>.1<ext>', older files are shifted and the oldest is removed.
+ * Records are written in the background in the order they are logged.
+ */
+export class RotatingFileSink implements LogSink {
+    private readonly file: string;
+    private readonly maxSize: number;
+    private readonly maxFiles: number;
+    private size?: number;
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(private readonly directory: string, options: RotatingFileOptions = {}) {
+        this.file = path.join(directory, options.fileName || 'plugin.log');
+        this.maxSize = options.maxSize || 1024 * 1024;
+        this.maxFiles = options.maxFiles ?? 3;
+    }
+
+    write(line: string): void {
+        this.pending = this.pending.then(() => this.append(`${line}\n`)).catch((e) => console.error(e));
+    }
+
+    /**
+     * Resolve once the records logged so far are written.
+     */
+    flush(): Promise<void> {
+        return this.pending;
+    }
+
+    private async append(data: string): Promise<void> {
+        if (this.size === undefined) {
+            await fs.promises.mkdir(this.directory, { recursive: true });
+            this.size = await fs.promises.stat(this.file).then(
+                (stat) => stat.size,
+                () => 0
+            );
+        }
+        if (this.size > 0 && this.size + Buffer.byteLength(data) > this.maxSize) {
+            await this.rotate();
+        }
+        await fs.promises.appendFile(this.file, data);
+        this.size += Buffer.byteLength(data);
+    }
+
+    private async rotate(): Promise<void> {
+        const ext = path.extname(this.file);
+        const base = this.file.substring(0, this.file.length - ext.length);
+        const rotated = (index: number) => `${base}.${index}${ext}`;
+        if (this.maxFiles === 0) {
+            await fs.promises.unlink(this.file);
+        } else {
+            await fs.promises.rm(rotated(this.maxFiles), { force: true });
+            for (let i = this.maxFiles - 1; i > 0; i--) {
+                // files that do not exist yet are skipped
+                await fs.promises.rename(rotated(i), rotated(i + 1)).catch((e) => {
+                    if (e.code !== 'ENOENT') {
+                        throw e;
+                    }
+                });
+            }
+            await fs.promises.rename(this.file, rotated(1));
+        }
+        this.size = 0;
+    }
+}
+
+/**
+ * Keep records in memory, e.g. to assert on logs in tests.
+ */
+export class MemorySink implements LogSink {
+    readonly records: LogRecord[] = [];
+    readonly lines: string[] = [];
+
+    write(line: string, record: LogRecord): void {
+        this.lines.push(line);
+        this.records.push(record);
+    }
+
+    clear(): void {
+        this.records.length = 0;
+        this.lines.length = 0;
+    }
+}
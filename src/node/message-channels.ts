@@ -0,0 +1,81 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Named channels that pages and backends publish messages to, a message reaches only the subscribers of its channel.
+ */
+export class MessageChannels {
+    // instance ids of the pages subscribed to each channel
+    private readonly pageSubscribers: Map<string, Set<string>> = new Map();
+    private readonly handlers: Map<string, ((data: any, publisher: string) => void)[]> = new Map();
+
+    /**
+     * @param deliverToPage send a message published on a channel to a subscribed page
+     * @param reportError report a handler of the plugin that failed
+     */
+    constructor(
+        private readonly deliverToPage: (instanceId: string, channel: string, data: any, publisher: string) => void,
+        private readonly reportError: (message: string) => void
+    ) {}
+
+    subscribePage(channel: string, instanceId: string): void {
+        const subscribers = this.pageSubscribers.get(channel) || new Set();
+        subscribers.add(instanceId);
+        this.pageSubscribers.set(channel, subscribers);
+    }
+
+    unsubscribePage(channel: string, instanceId: string): void {
+        const subscribers = this.pageSubscribers.get(channel);
+        subscribers?.delete(instanceId);
+        if (subscribers?.size === 0) {
+            this.pageSubscribers.delete(channel);
+        }
+    }
+
+    /**
+     * Remove the subscriptions of a page that is disposed or reloaded.
+     */
+    disposeOwner(instanceId: string): void {
+        [...this.pageSubscribers.keys()].forEach((channel) => this.unsubscribePage(channel, instanceId));
+    }
+
+    /**
+     * Subscribe a handler of the plugin to the channel.
+     */
+    subscribe(channel: string, handler: (data: any, publisher: string) => void): { dispose(): void } {
+        this.handlers.set(channel, [...(this.handlers.get(channel) || []), handler]);
+        return {
+            dispose: () => {
+                const handlers = (this.handlers.get(channel) || []).filter((registered) => registered !== handler);
+                if (handlers.length > 0) {
+                    this.handlers.set(channel, handlers);
+                } else {
+                    this.handlers.delete(channel);
+                }
+            }
+        };
+    }
+
+    /**
+     * Deliver the message to the subscribers of the channel, except to the page that published it.
+     * @param publisher instance id of the page or client id of the plugin that published the message
+     */
+    publish(channel: string, data: any, publisher: string): void {
+        (this.handlers.get(channel) || []).forEach((handler) => {
+            try {
+                handler(data, publisher);
+            } catch (e) {
+                this.reportError(`handler of channel ${channel} failed: ${(<any>e)?.message || e}`);
+            }
+        });
+        (this.pageSubscribers.get(channel) || new Set()).forEach((instanceId) => {
+            if (instanceId !== publisher) {
+                this.deliverToPage(instanceId, channel, data, publisher);
+            }
+        });
+    }
+}
@@ -0,0 +1,87 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as cloudide from '@codearts/plugin';
+import { PageCommandOptions } from '../common/plugin-common';
+
+/**
+ * Commands registered by pages, running a command calls the handler of the page that registered it.
+ */
+export class PageCommands {
+    private readonly commands: Map<string, { owner: string; registration: cloudide.Disposable }> = new Map();
+
+    /**
+     * @param manifest package.json of the plugin, declares the commands contributed to the IDE
+     * @param executeOnPage run the handler of a command on the page that registered it
+     * @param warn report a problem with the contribution of a command
+     */
+    constructor(
+        private readonly manifest: any,
+        private readonly executeOnPage: (instanceId: string, id: string, args: any[]) => Promise<any>,
+        private readonly warn: (message: string) => void
+    ) {}
+
+    /**
+     * Register a command of a page with the IDE, only commands contributed in package.json can be registered.
+     * A page may register a command again, e.g. after it is reloaded, but not a command registered by another page.
+     */
+    register(instanceId: string, id: string, options: PageCommandOptions = {}): void {
+        const contributed = (this.manifest?.contributes?.commands || []).find((command: any) => command.command === id);
+        if (!contributed) {
+            throw new Error(`command ${id} is not contributed in package.json`);
+        }
+        const registered = this.commands.get(id);
+        if (registered && registered.owner !== instanceId) {
+            throw new Error(`command ${id} is already registered by ${registered.owner}`);
+        }
+        registered?.registration.dispose();
+        this.checkContribution(contributed, options);
+        const registration = cloudide.commands.registerCommand(id, (...args: any[]) =>
+            this.executeOnPage(instanceId, id, args)
+        );
+        this.commands.set(id, { owner: instanceId, registration });
+    }
+
+    unregister(instanceId: string, id: string): void {
+        const registered = this.commands.get(id);
+        if (registered?.owner === instanceId) {
+            registered.registration.dispose();
+            this.commands.delete(id);
+        }
+    }
+
+    /**
+     * Remove the commands of a page that is disposed or reloaded.
+     */
+    disposeOwner(instanceId: string): void {
+        [...this.commands.keys()].forEach((id) => this.unregister(instanceId, id));
+    }
+
+    dispose(): void {
+        this.commands.forEach(({ registration }) => registration.dispose());
+        this.commands.clear();
+    }
+
+    /**
+     * The IDE only shows what package.json contributes for the command, tell the developer what is missing.
+     * @param command contribution of the command in package.json
+     */
+    private checkContribution(command: any, options: PageCommandOptions): void {
+        const id = command.command;
+        const contributes = this.manifest?.contributes || {};
+        if (options.title && command.title !== options.title) {
+            this.warn(`command ${id} is shown as '${command.title}' as contributed in package.json`);
+        }
+        const keybindings = (contributes.keybindings || []).filter((keybinding: any) => keybinding.command === id);
+        if (options.keybinding && !keybindings.some((keybinding: any) => keybinding.key === options.keybinding)) {
+            this.warn(`keybinding ${options.keybinding} of command ${id} is not contributed in package.json`);
+        }
+        const paletteEntry = (contributes.menus?.commandPalette || []).find((entry: any) => entry.command === id);
+        if (options.when && paletteEntry?.when !== options.when) {
+            this.warn(`when clause of command ${id} is not contributed to menus.commandPalette in package.json`);
+        }
+    }
+}
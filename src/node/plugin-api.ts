@@ -9,13 +9,75 @@ import * as cloudide from '@codearts/plugin';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as cheerio from 'cheerio';
-import * as ejs from 'ejs';
-import * as pug from 'pug';
-import { v4 as uuid } from 'uuid';
-import { IframeLike, exposable, Deferred, expose, call, Messaging } from '@cloudide/messaging';
-import { WebviewOptions, EventType, LogLevel } from '../common/plugin-common';
+import { IframeLike, exposable, Deferred, expose, Messaging } from '@cloudide/messaging';
+import {
+    WebviewOptions,
+    EventType,
+    LogLevel,
+    LogFields,
+    PluginApiData,
+    PersistedWebviewState,
+    SubscribeOptions,
+    WebviewViewInfo,
+    CustomEditorOptions,
+    CustomDocumentEdit,
+    CustomDocumentSnapshot,
+    TextDocumentChangeEventDto,
+    ThemeKind,
+    PageCommandOptions
+} from '../common/plugin-common';
 import { CloudIDENlsConfig, nlsConfig, initNlsConfig } from '@cloudide/nls';
-import { format } from '@cloudide/nls/lib/common/common';
+import { Localization } from './localization';
+import { Logger, OutputChannelSink, RotatingFileOptions, RotatingFileSink } from './logger';
+import { LifecycleEvent, LifecycleManager } from '../common/lifecycle';
+import { Injector } from '../common/injection';
+import { EventSerializer, defaultEventSerializers } from './event-serializers';
+import { EventRateLimiter, matchEventFilter } from './event-filter';
+import { ApiPermissionChecker, apiProxyFunction } from './api-permissions';
+import { RemoteApi, createRemoteApi } from '../common/remote-api';
+import { CallOptions, RemoteCancellation } from '../common/cancellation';
+import { RemoteStreams } from '../common/remote-stream';
+import { createNonce, iframeWrapperPolicy, localPagePolicy } from './content-security-policy';
+import { PageWatcher } from './hot-reload';
+import { CustomDocumentSession } from './custom-editor';
+import { MessageChannels } from './message-channels';
+import { getThemeKind, resolveIconPath } from './theme';
+import { remoteBridgeScript } from './remote-bridge';
+import { ResourceRewriter } from './resource-rewriter';
+import { PageCommands } from './page-commands';
+import { bridgeMessageTypes } from '../common/remote-bridge';
+import { SharedStores, StoreOptions } from './shared-stores';
+import { ObservableStore, StoreSnapshot } from '../common/store';
+import { JsonPatchOperation } from '../common/json-patch';
+import { TemplateEngine, TemplateEngineRegistry, TemplateError, renderTemplateErrorPage } from './template-engine';
+
+/**
+ * Hook to change how the panels of a view type are revived, see Plugin.registerWebviewPanelSerializer.
+ */
+export interface WebviewPanelSerializer {
+    /**
+     * Return the options to render the revived panel with, the panel is disposed if undefined is returned.
+     * The page and the security options of the registration, see revivedOptionKeys, cannot be changed.
+     * @param registeredOptions options passed to Plugin.registerWebviewPanelSerializer
+     * @param pageState state persisted by the page, it is written by the page and must not be trusted
+     */
+    resolveOptions?(
+        registeredOptions: WebviewOptions,
+        pageState: any
+    ): WebviewOptions | undefined | Promise<WebviewOptions | undefined>;
+}
+
+/**
+ * Options of a revived panel that are always taken from the registration of the serializer.
+ */
+const revivedOptionKeys: (keyof WebviewOptions)[] = [
+    'viewType',
+    'viewUrl',
+    'apiPermissions',
+    'sensitiveApis',
+    'remoteBridge',
+    'contentSecurityPolicy'
+];
 
 /**
  * Defines abstract backend class that all backend must extend.
@@ -54,32 +116,123 @@ export abstract class AbstractBackend {
      * Called when plugin stops.
      */
     abstract stop(): void;
+
+    /**
+     * Called when a page is initialized again after it is reloaded by hot reload.
+     * Calls made to the page in run() can be made again here.
+     * @param instanceId instance id of the reloaded page, calls are made to the page with '<instanceId>::<function>'
+     * @param viewType view type of the reloaded page
+     */
+    onPageReload?(instanceId: string, viewType: string): void;
 }
 
 const beforeUninstallEventType = 'cloudide.plugin.beforeUninstall';
 
+// subscriptions made without a view type are delivered to all pages
+const allViewTypes = '*';
+
 interface IBackendConstructor<T> extends Function {
-    new (plugin: Plugin, context: cloudide.ExtensionContext): T;
+    // parameters after plugin and context are injected
+    new (plugin: Plugin, context: cloudide.ExtensionContext, ...injected: any[]): T;
 }
 
 const backendClientIdentifier = 'backend';
 Messaging.init(backendClientIdentifier);
 
+/**
+ * Exposed functions that act for the page calling them, mapped to the index of the argument naming the page.
+ * The container that receives the call replaces the argument with its own id, so a page cannot act for another page.
+ */
+const callerArguments: { [func: string]: number } = {
+    'plugin.channel': 0,
+    'plugin.store': 0,
+    'plugin.customEditor.getDocument': 0,
+    'plugin.customEditor.applyEdit': 0,
+    'plugin.customEditor.save': 0,
+    'plugin.customEditor.execute': 0,
+    'plugin.subscribeEvent': 1,
+    'plugin.unsubscribeEvent': 1,
+    'plugin.unsubscribeAllEvents': 0,
+    'plugin.commands': 0,
+    'plugin.log': 0,
+    'plugin.onPageInit': 0,
+    // webviews created by a page get no more permissions than the page
+    'plugin.createDynamicWebview': 2,
+    'plugin.createWebviewPanel': 2,
+    'plugin.createWebviewViewDialog': 1,
+    'plugin.registerProjectWizardProvider': 1,
+    'plugin.registerWebviewViewProvider': 1
+};
+
+// name of the called function without the target, e.g. 'plugin.log' for 'backend::plugin.log'
+function functionName(func: string): string {
+    const separator = func.indexOf('::');
+    return separator >= 0 ? func.substring(separator + 2) : func;
+}
+
 /**
  * Defines an object to provide CloudIDE backend API.
  * Plugin is a singleton.
  */
 export class Plugin {
     public readonly manifest: any = {};
+    public readonly apiPermissions: ApiPermissionChecker;
+    public readonly remoteCancellation: RemoteCancellation = new RemoteCancellation();
+    public readonly remoteStreams: RemoteStreams = new RemoteStreams();
+    private readonly stores: SharedStores;
+    private readonly pageCommands: PageCommands;
+    private readonly channels: MessageChannels = new MessageChannels(
+        (instanceId, channel, data, publisher) =>
+            this.call(`${instanceId}::plugin.page.onChannelMessage`, channel, data, publisher).catch((err) =>
+                this.log(LogLevel.ERROR, `failed to deliver message of channel ${channel} to ${instanceId}: ${err}`)
+            ),
+        (message) => this.log(LogLevel.ERROR, message)
+    );
+    public readonly templateEngines: TemplateEngineRegistry = new TemplateEngineRegistry();
+    public readonly localization: Localization;
+
+    /**
+     * Logger of the plugin, writes to the output channel of the plugin by default.
+     * Set its level to drop verbose records, or add sinks, e.g. with logToFile.
+     */
+    public readonly logger: Logger;
+    /**
+     * Injector of the backends and the services injected into them with @inject.
+     */
+    public readonly injector: Injector = new Injector();
+    // injectors of the page scoped services of each view type
+    private readonly pageInjectors: Map<string, Injector> = new Map();
+    // webview view providers stay registered while their views are closed and resolved again
+    private readonly webviewViewProviders: Map<string, BaseWebviewViewProvider> = new Map();
+    private viewVisibilityListeners: ((viewType: string, visible: boolean) => void)[] = [];
+    private instanceCount = 0;
+    private readonly lifecycle: LifecycleManager = new LifecycleManager((component, phase, error) =>
+        this.log(LogLevel.ERROR, `failed to ${phase} ${component}: ${error?.message || error}`, { component })
+    );
+
+    /**
+     * Timeout in milliseconds of calls to pages that do not specify one, calls wait forever if not defined.
+     */
+    public defaultCallTimeout?: number;
     private static instance: Plugin;
     readonly context: cloudide.ExtensionContext;
     private _container: Map<string, BaseWebviewContainer>;
     private backends: Map<IBackendConstructor<AbstractBackend>, AbstractBackend>;
     private i18n: CloudIDENlsConfig = nlsConfig;
-    private _outputChannel?: cloudide.OutputChannel;
 
     private constructor(context: cloudide.ExtensionContext, backends?: IBackendConstructor<AbstractBackend>[]) {
         this.context = context;
+        this.stores = new SharedStores(
+            context,
+            (instanceId, name, patch, version) =>
+                this.call(`${instanceId}::plugin.page.onStoreChange`, name, patch, version).catch((err) =>
+                    this.log(LogLevel.ERROR, `failed to send change of store ${name} to ${instanceId}: ${err}`)
+                ),
+            (message) => this.log(LogLevel.ERROR, message)
+        );
+        this.logger = new Logger([
+            new OutputChannelSink(() => cloudide.window.createOutputChannel(context.extension.id))
+        ]);
         const manifestPath = path.join(context.extensionPath, 'package.json');
         // remove duplicates from the backend list
         backends = [...new Set(backends)];
@@ -90,15 +243,31 @@ export class Plugin {
         } catch (e) {
             console.error(e);
         }
+        this.apiPermissions = new ApiPermissionChecker(this.manifest);
+        this.pageCommands = new PageCommands(
+            this.manifest,
+            (instanceId, id, args) => this.call(`${instanceId}::plugin.page.executeCommand`, id, ...args),
+            (message) => this.log(LogLevel.WARN, message)
+        );
 
         // compatiable with plugin generated with generator of previous version (version < 0.2.3)
         if (!this.i18n.l10n) {
             initNlsConfig(context.extensionPath);
             this.i18n = nlsConfig;
         }
+        this.localization = new Localization(
+            context.extensionPath,
+            this.i18n.locale || 'en',
+            (key, locale) => this.log(LogLevel.WARN, `missing localized message ${key} for locale ${locale}`),
+            (message) => this.log(LogLevel.ERROR, message)
+        );
 
         this._container = new Map();
         this.backends = new Map<IBackendConstructor<AbstractBackend>, AbstractBackend>();
+        const themeListener = cloudide.window.onDidChangeActiveColorTheme?.(() => this.onThemeChange(getThemeKind()));
+        if (themeListener) {
+            context.subscriptions.push(themeListener);
+        }
         if (backends && backends.length > 0) {
             this.initApi(this, context, backends);
         }
@@ -110,23 +279,31 @@ export class Plugin {
         backendClasses: IBackendConstructor<AbstractBackend>[]
     ): Promise<void> {
         backendClasses.push(DefaultPluginApiHost);
+        this.injector.bind(Plugin, plugin);
+        // bind all backends before creating any, so that backends can be injected into each other
+        backendClasses.forEach((backendClass) => this.injector.bindClass(backendClass, [plugin, context]));
         backendClasses.forEach((backendClass) => {
             if (!this.backends.get(backendClass)) {
-                const backendInstance = new backendClass(plugin, context);
-                this.backends.set(backendClass, backendInstance);
+                try {
+                    const backendInstance = this.injector.get(backendClass);
+                    this.backends.set(backendClass, backendInstance);
+                    this.lifecycle.add(backendClass, backendInstance, this.injector.getDependencies(backendClass));
+                } catch (e) {
+                    this.log(LogLevel.ERROR, `failed to create ${backendClass.name}: ${(<any>e).message}`, {
+                        component: backendClass.name
+                    });
+                }
             }
         });
-        const initPromises = [];
-        const iterator = this.backends.values();
-        let backendInstance: IteratorResult<AbstractBackend>;
-        while (((backendInstance = iterator.next()), !backendInstance.done)) {
-            initPromises.push(backendInstance.value.init());
-        }
-        await Promise.all(initPromises);
-        //await plugin.ready();
-        this.backends.forEach((backendInstance) => {
-            backendInstance.run();
-        });
+        await this.lifecycle.start();
+    }
+
+    /**
+     * Listen to backends being initialized, run, stopped or failing.
+     * Backends declare the backends they depend on with @dependsOn.
+     */
+    public onDidChangeLifecycle(listener: (event: LifecycleEvent) => void): cloudide.Disposable {
+        return this.lifecycle.onDidChangePhase(listener);
     }
 
     /**
@@ -173,14 +350,7 @@ export class Plugin {
             const curWebviewPanel = this.container.get(opts.viewType);
             if (curWebviewPanel && curWebviewPanel instanceof BaseWebviewPanel) {
                 curWebviewPanel.pluginPanel.title = opts.title;
-                curWebviewPanel.pluginPanel.iconPath = opts.iconPath
-                    ? cloudide.Uri.file(
-                          path.join(
-                              this.context.extensionPath,
-                              typeof opts.iconPath === 'object' ? opts.iconPath.light : opts.iconPath
-                          )
-                      )
-                    : undefined;
+                curWebviewPanel.pluginPanel.iconPath = resolveIconPath(this.context.extensionPath, opts.iconPath);
                 curWebviewPanel.pluginPanel.webview.html = curWebviewPanel.renderHtml(
                     opts.viewType,
                     opts.viewUrl,
@@ -192,9 +362,9 @@ export class Plugin {
                 return curWebviewPanel;
             }
         }
-        const newIncomingWebview = new BaseWebviewPanel(this.context, opts);
+        const newIncomingWebview = new BaseWebviewPanel(this.context, opts, this.createInstanceId(opts.viewType));
         Messaging.bind(newIncomingWebview, backendClientIdentifier);
-        this.container.set(opts.viewType, newIncomingWebview);
+        this.container.set(newIncomingWebview.id, newIncomingWebview);
         return newIncomingWebview;
     }
 
@@ -204,10 +374,10 @@ export class Plugin {
      * @returns cloudide.Disposable
      */
     public createWebviewViewDialog(opts: WebviewOptions & cloudide.DialogOptions): cloudide.Disposable {
-        const provider = new BaseWebviewDialogProvider(this.context, opts);
+        const provider = new BaseWebviewDialogProvider(this.context, opts, this.createInstanceId(opts.viewType));
         Messaging.bind(provider, backendClientIdentifier);
         const dialog = (cloudide.window as any).createWebviewViewDialog(provider, opts);
-        this.container.set(opts.viewType, provider);
+        this.container.set(provider.id, provider);
         provider.onDispose(dialog.dispose.bind(dialog));
         return dialog;
     }
@@ -226,14 +396,7 @@ export class Plugin {
     public registerProjectWizardProvider(opts: WebviewOptions): cloudide.Disposable | undefined {
         const provider = new BaseWebviewDialogProvider(this.context, opts);
         let disposable = undefined;
-        const iconPath = opts.iconPath
-            ? cloudide.Uri.file(
-                  path.join(
-                      this.context.extensionPath,
-                      typeof opts.iconPath === 'object' ? opts.iconPath.light : opts.iconPath
-                  )
-              )
-            : undefined;
+        const iconPath = resolveIconPath(this.context.extensionPath, opts.iconPath);
         try {
             disposable = (cloudide as any).window.registerProjectWizardProvider(opts.viewType, opts.title, provider, {
                 iconPath,
@@ -250,23 +413,342 @@ export class Plugin {
         return disposable;
     }
 
-    public dispatchMessage(sourceViewType: string, message: any): void {
-        this.container.forEach(async (webviewContainer, viewType) => {
-            if (viewType !== sourceViewType && !webviewContainer.disposed) {
-                await webviewContainer.pageInitialized.promise;
-                if (!webviewContainer.disposed) {
-                    webviewContainer.postMessage(message);
+    /**
+     * Register the provider of a webview view contributed to the explorer or the activity bar in package.json.
+     *
+     * @param opts options to create the webview provider, opts.viewType must be the id of the view in contributes.views
+     *
+     * @returns cloudide.Disposable that unregisters the provider and disposes the view
+     */
+    public registerWebviewViewProvider(opts: WebviewOptions): cloudide.Disposable | undefined {
+        const provider = new BaseWebviewViewProvider(this.context, opts);
+        let registration: cloudide.Disposable;
+        try {
+            registration = cloudide.window.registerWebviewViewProvider(opts.viewType, provider, {
+                webviewOptions: { retainContextWhenHidden: opts.retainContextWhenHidden }
+            });
+        } catch (e) {
+            this.log(LogLevel.ERROR, (<any>e).message);
+            return undefined;
+        }
+
+        Messaging.bind(provider, backendClientIdentifier);
+        this.container.set(opts.viewType, provider);
+        this.webviewViewProviders.set(opts.viewType, provider);
+        return {
+            dispose: () => {
+                registration.dispose();
+                if (this.webviewViewProviders.get(opts.viewType) === provider) {
+                    this.webviewViewProviders.delete(opts.viewType);
+                }
+                if (!provider.disposed) {
+                    provider.dispose();
                 }
             }
+        };
+    }
+
+    /**
+     * Register a custom editor contributed in package.json, each document opened in the editor gets its own page.
+     * The page edits the document through PluginPage.getCustomDocument().
+     *
+     * @param viewType view type of the custom editor in contributes.customEditors
+     * @param opts options to render the page of each document
+     *
+     * @returns cloudide.Disposable that unregisters the editor and disposes its pages
+     */
+    public registerCustomEditor(viewType: string, opts: CustomEditorOptions): cloudide.Disposable | undefined {
+        const editors: BaseCustomEditorPanel[] = [];
+        let registration: cloudide.Disposable;
+        try {
+            registration = cloudide.window.registerCustomEditorProvider(
+                viewType,
+                {
+                    resolveCustomTextEditor: (document: cloudide.TextDocument, webviewPanel: cloudide.WebviewPanel) => {
+                        const editor = new BaseCustomEditorPanel(
+                            this.context,
+                            { ...opts, viewType, title: opts.title || path.basename(document.fileName) },
+                            this.createInstanceId(viewType),
+                            webviewPanel,
+                            document
+                        );
+                        Messaging.bind(editor, backendClientIdentifier);
+                        this.container.set(editor.id, editor);
+                        editors.push(editor);
+                        editor.onDispose(() => editors.splice(editors.indexOf(editor), 1));
+                    }
+                },
+                {
+                    webviewOptions: { retainContextWhenHidden: opts.retainContextWhenHidden },
+                    supportsMultipleEditorsPerDocument: opts.supportsMultipleEditorsPerDocument
+                }
+            );
+        } catch (e) {
+            this.log(LogLevel.ERROR, (<any>e).message);
+            return undefined;
+        }
+        return {
+            dispose: () => {
+                registration.dispose();
+                [...editors].forEach((editor) => editor.dispose());
+            }
+        };
+    }
+
+    /**
+     * Return the document session of the custom editor page with the id.
+     */
+    getCustomDocument(pageId: string): CustomDocumentSession | undefined {
+        const editor = this.container.get(pageId);
+        return editor instanceof BaseCustomEditorPanel ? editor.session : undefined;
+    }
+
+    /**
+     * Change the title, description or badge of a webview view.
+     * Changes made before the view is resolved are applied when it is.
+     * @param viewType view type of a registered webview view provider
+     * @returns false if no provider is registered for the view type
+     */
+    public updateWebviewView(viewType: string, info: WebviewViewInfo): boolean {
+        const provider = this.webviewViewProviders.get(viewType);
+        if (!provider) {
+            return false;
+        }
+        provider.update(info);
+        return true;
+    }
+
+    /**
+     * Listen to webview views being shown or hidden, e.g. when the user collapses the view.
+     */
+    public onDidChangeWebviewViewVisibility(
+        listener: (viewType: string, visible: boolean) => void
+    ): cloudide.Disposable {
+        this.viewVisibilityListeners.push(listener);
+        return {
+            dispose: () => {
+                this.viewVisibilityListeners = this.viewVisibilityListeners.filter(
+                    (registered) => registered !== listener
+                );
+            }
+        };
+    }
+
+    /**
+     * Notify the listeners and the page of the view that the view has been shown or hidden.
+     */
+    onWebviewViewVisibilityChange(viewType: string, visible: boolean): void {
+        this.viewVisibilityListeners.forEach((listener) => listener(viewType, visible));
+        const webviewContainer = this.container.get(viewType);
+        webviewContainer?.pageInitialized.promise
+            .then(() => this.call(`${viewType}::plugin.page.onVisibilityChange`, visible))
+            .catch((err) => this.log(LogLevel.ERROR, `failed to notify ${viewType} of visibility: ${err}`));
+    }
+
+    /**
+     * Return the instance ids of the open pages of the view type, in the order they were opened.
+     */
+    public getInstances(viewType: string): string[] {
+        const instances: string[] = [];
+        this.container.forEach((webviewContainer, instanceId) => {
+            if (webviewContainer.options.viewType === viewType && !webviewContainer.disposed) {
+                instances.push(instanceId);
+            }
         });
+        return instances;
+    }
+
+    /**
+     * Call a function on every open page of a view type.
+     * @param identifier remote function with the format of 'viewType::function-id'
+     * @returns results of the pages in the order of getInstances
+     */
+    public async broadcast(identifier: string, ...args: any[]): Promise<any[]> {
+        const [viewType, func] = identifier.split('::');
+        return Promise.all(
+            this.getInstances(viewType).map((instanceId) => this.call(`${instanceId}::${func}`, ...args))
+        );
+    }
+
+    /**
+     * The first page of a view type is identified by the view type, so that 'viewType::function-id' reaches it.
+     */
+    private createInstanceId(viewType: string): string {
+        const current = this._container.get(viewType);
+        return current && !current.disposed ? `${viewType}#${++this.instanceCount}` : viewType;
+    }
+
+    /**
+     * Pass a message posted by a page to the page it is addressed to, e.g. a call to 'otherViewType::function-id'
+     * or the reply to such a call. A call to a page that is not open is rejected.
+     * @param sourceId instance id of the page that posted the message
+     */
+    public async dispatchMessage(sourceId: string, message: any): Promise<void> {
+        const target = this.getOpenContainer(message.to);
+        if (!target) {
+            if (!message.notify) {
+                this.container.get(sourceId)?.postMessage({
+                    id: message.id,
+                    func: message.func,
+                    ret: `no page is open for ${message.to}`,
+                    success: false,
+                    notify: true,
+                    to: message.from,
+                    from: message.to
+                });
+            }
+            return;
+        }
+        await target.pageInitialized.promise;
+        if (!target.disposed) {
+            target.postMessage({ ...message, to: target.id });
+        }
+    }
+
+    /**
+     * Return the open page with the instance id. 'viewType' reaches the first open page of the view type
+     * once the page identified by the view type is closed.
+     */
+    private getOpenContainer(instanceId: string): BaseWebviewContainer | undefined {
+        const webviewContainer = this._container.get(instanceId);
+        if (webviewContainer && !webviewContainer.disposed) {
+            return webviewContainer;
+        }
+        const [openInstanceId] = this.getInstances(instanceId);
+        return openInstanceId ? this._container.get(openInstanceId) : undefined;
+    }
+
+    /**
+     * Publish a message on a named channel, pages receive it if they subscribed with PluginPage.subscribe.
+     */
+    public publish(channel: string, data: any): void {
+        this.channels.publish(channel, data, backendClientIdentifier);
+    }
+
+    /**
+     * Receive the messages published on a named channel by pages and by the plugin.
+     * @param handler called with the message and the instance id of the page that published it, 'backend' for the plugin
+     */
+    public subscribe(channel: string, handler: (data: any, publisher: string) => void): cloudide.Disposable {
+        return this.channels.subscribe(channel, handler);
+    }
+
+    /**
+     * Tell the open pages that the color theme changed, pages rendered afterwards get the theme from renderHtml.
+     */
+    private onThemeChange(kind: ThemeKind): void {
+        this._container.forEach((webviewContainer, instanceId) => {
+            if (!webviewContainer.disposed) {
+                this.call(`${instanceId}::plugin.page.onThemeChange`, kind).catch((err) =>
+                    this.log(LogLevel.ERROR, `failed to send theme change to ${instanceId}: ${err}`)
+                );
+            }
+        });
+    }
+
+    /**
+     * Create a store shared with the pages, pages use it with PluginPage.useStore(name).
+     * Changes made with store.setState are sent to the pages as JSON patches, changes made by pages are applied here.
+     * @example
+     * ```
+     *     const tasks = plugin.createStore('tasks', { items: [] }, { persist: 'workspace' });
+     *     tasks.setState((state) => ({ items: [...state.items, task] }));
+     * ```
+     */
+    public createStore<T>(name: string, initial: T, options?: StoreOptions): ObservableStore<T> {
+        return this.stores.create(name, initial, options);
+    }
+
+    public getStore<T>(name: string): ObservableStore<T> | undefined {
+        return this.stores.get<T>(name);
+    }
+
+    /**
+     * Stop sharing the store with pages, e.g. to create it again with a different initial state.
+     */
+    public deleteStore(name: string): void {
+        this.stores.delete(name);
+    }
+
+    /**
+     * Start or stop sending the changes of a store to a page, get its snapshot or apply a change made by the page.
+     */
+    onStoreRequest(
+        instanceId: string,
+        request: 'subscribe' | 'unsubscribe' | 'snapshot' | 'patch',
+        name: string,
+        patch?: JsonPatchOperation[],
+        baseVersion?: number
+    ): StoreSnapshot | number | void {
+        switch (request) {
+            case 'subscribe':
+                return this.stores.subscribePage(name, instanceId);
+            case 'unsubscribe':
+                return this.stores.unsubscribePage(name, instanceId);
+            case 'snapshot':
+                return this.stores.getSnapshot(name);
+            case 'patch':
+                return this.stores.applyPatch(name, patch || [], baseVersion ?? -1);
+        }
+    }
+
+    /**
+     * Register or unregister a command of a page, the command runs the handler of the page.
+     */
+    onCommandRequest(
+        instanceId: string,
+        request: 'register' | 'unregister',
+        id: string,
+        options?: PageCommandOptions
+    ): void {
+        if (request === 'register') {
+            this.pageCommands.register(instanceId, id, options);
+        } else {
+            this.pageCommands.unregister(instanceId, id);
+        }
+    }
+
+    /**
+     * Subscribe or unsubscribe a page to a named channel, or publish a message on it for a page.
+     */
+    onChannelRequest(
+        instanceId: string,
+        request: 'subscribe' | 'unsubscribe' | 'publish',
+        channel: string,
+        data?: any
+    ) {
+        if (request === 'subscribe') {
+            this.channels.subscribePage(channel, instanceId);
+        } else if (request === 'unsubscribe') {
+            this.channels.unsubscribePage(channel, instanceId);
+        } else {
+            this.channels.publish(channel, data, instanceId);
+        }
     }
 
     /**
      * Return the backend object initialized by plugin
      * @param backendClass Class definition of the backend
      */
-    public getBackend(backendClass: IBackendConstructor<AbstractBackend>): AbstractBackend | undefined {
-        return this.backends.get(backendClass);
+    public getBackend<T extends AbstractBackend>(backendClass: IBackendConstructor<T>): T | undefined {
+        return this.backends.get(backendClass) as T | undefined;
+    }
+
+    /**
+     * Return the instance of an injectable service, created when it is got the first time.
+     * @param serviceClass class decorated with @injectable
+     * @param instanceId instance id of the page, for services scoped to pages, they are disposed with the page
+     */
+    public getService<T>(serviceClass: new (...args: any[]) => T, instanceId?: string): T {
+        if (!instanceId) {
+            return this.injector.get(serviceClass);
+        }
+        let pageInjector = this.pageInjectors.get(instanceId);
+        if (!pageInjector) {
+            pageInjector = this.injector.createChild();
+            this.pageInjectors.set(instanceId, pageInjector);
+        }
+        return pageInjector.get(serviceClass);
     }
 
     /**
@@ -283,34 +765,75 @@ export class Plugin {
      * @returns Promise<any>
      */
     public async call(identifier: string, ...args: any[]): Promise<any> {
-        const viewType = identifier.indexOf('::') >= 0 ? identifier.substring(0, identifier.indexOf('::')) : '';
-        const viewContainer = this._container.get(viewType);
+        return this.callWithOptions(identifier, {}, ...args);
+    }
+
+    /**
+     * Make a function call to frontend with timeout and cancellation.
+     * CancellationTokens and AbortSignals in args are passed to the remote function as CancellationTokens,
+     * they are cancelled when the call is cancelled or timed out.
+     * Functions in args, e.g. a progress callback, can be invoked by the remote function until the call completes
+     * or the returned stream ends.
+     * If the remote function returns an async iterable, the call resolves to an async iterable as well.
+     * @param identifier remote function with the format of 'viewType::function-id'
+     * @param options timeout and cancellation signal of the call, the timeout defaults to defaultCallTimeout
+     * @param args parameters pass to remote function
+     */
+    public async callWithOptions(identifier: string, options: CallOptions, ...args: any[]): Promise<any> {
+        const target = identifier.indexOf('::') >= 0 ? identifier.substring(0, identifier.indexOf('::')) : '';
+        const viewContainer = this.getOpenContainer(target);
         if (!viewContainer) {
-            this.log(LogLevel.ERROR, `target view does not exist: ${viewType}`);
-            return Promise.reject(`target view does not exist: ${viewType}`);
+            this.log(LogLevel.ERROR, `target view does not exist: ${target}`);
+            return Promise.reject(`target view does not exist: ${target}`);
         }
-        await viewContainer.pageInitialized.promise;
-        const messagingInstance = Messaging.getInstance();
-        if (messagingInstance) {
-            return messagingInstance.call(identifier, ...args);
+        // the call may reach another page of the view type than the one identified by the view type
+        const instanceId = viewContainer.id;
+        identifier = `${instanceId}::${functionName(identifier)}`;
+        const remoteCall = async (func: string, ...callArgs: any[]) => Messaging.getInstance()?.call(func, ...callArgs);
+        const callbacks = this.remoteStreams.exportCallbacks(args);
+        let ret: any;
+        try {
+            ret = await this.remoteCancellation.call(
+                async (callArgs) => {
+                    await viewContainer.pageInitialized.promise;
+                    return remoteCall(identifier, ...callArgs);
+                },
+                (cancellationId) => remoteCall(`${instanceId}::plugin.cancelCall`, cancellationId),
+                callbacks.args,
+                { ...options, timeout: options.timeout ?? this.defaultCallTimeout }
+            );
+        } catch (e) {
+            callbacks.release();
+            throw e;
         }
-        return Promise.resolve();
+        return this.remoteStreams.importResult(ret, instanceId, remoteCall, callbacks.release);
+    }
+
+    /**
+     * Return a typed proxy of the API exposed by the page of viewType.
+     * @example plugin.remote<MyPageApi>('main', 'myPage').doThing(x) calls the function exposed as 'myPage.doThing'
+     * @param viewType view type of the target page
+     * @param namespace prefix of the identifiers the page API is exposed with
+     */
+    public remote<T>(viewType: string, namespace?: string): RemoteApi<T> {
+        return createRemoteApi<T>((identifier, ...args) => this.call(`${viewType}::${identifier}`, ...args), namespace);
     }
 
     /**
      * Log to backend console.
      * @param level log level.
      * @param message log message.
+     * @param fields structured fields of the record, e.g. { viewType: 'main' }.
      */
-    public log(level: LogLevel, message: string): void {
-        // create output channel when log is called
-        if (!this._outputChannel) {
-            this._outputChannel = cloudide.window.createOutputChannel(this.context.extension.id);
-        }
+    public log(level: LogLevel, message: string, fields?: LogFields): void {
+        this.logger.log(level, message, fields);
+    }
 
-        const currentTime = new Date().toISOString().replace('T', ' ').substr(0, 19);
-        const logMessage = `[${level}][${currentTime}]${message}`;
-        this._outputChannel.appendLine(logMessage);
+    /**
+     * Write the log also to rotated files under context.logUri, the returned disposable stops writing to them.
+     */
+    public logToFile(options?: RotatingFileOptions): cloudide.Disposable {
+        return this.logger.addSink(new RotatingFileSink(this.context.logUri.fsPath, options));
     }
 
     /**
@@ -323,22 +846,143 @@ export class Plugin {
         (this.backends.get(DefaultPluginApiHost) as DefaultPluginApiHost).fireTheiaEvent(eventType, event);
     }
 
+    /**
+     * Replace the serializer that converts IDE event objects to the payload sent to pages.
+     * @param eventType event type defined in EventType
+     * @param serializer function that returns data can be cloned by postMessage
+     */
+    public registerEventSerializer(eventType: EventType, serializer: EventSerializer): void {
+        (this.backends.get(DefaultPluginApiHost) as DefaultPluginApiHost).eventSerializers.set(eventType, serializer);
+    }
+
+    /**
+     * Return the localized message of the key, looked up in the current locale and its fallbacks, e.g. zh-cn, zh, en.
+     * Messages are formatted in ICU MessageFormat style, e.g. '{count, plural, one {# file} other {# files}}'.
+     * The key is returned if the message is missing.
+     * @param key key of the message in package.nls.*.json
+     * @param args positional values, or a single object of named values
+     */
     public localize(key: string, ...args: any[]): string {
-        const message = this.i18n.l10n[key];
-        if (!message) {
-            return '';
+        return this.localization.localize(key, args);
+    }
+
+    /**
+     * Switch the locale at runtime, open pages are notified and localize with the new locale.
+     * @param locale locale to switch to, e.g. 'zh-cn'
+     */
+    public setLocale(locale: string): void {
+        if (!this.localization.setLocale(locale)) {
+            return;
         }
-        return format(message, args);
+        this._container.forEach((webviewContainer, instanceId) => {
+            if (!webviewContainer.disposed) {
+                this.call(`${instanceId}::plugin.page.onLocaleChange`, this.localization.i18n).catch((err) =>
+                    this.log(LogLevel.ERROR, `failed to send locale ${locale} to ${instanceId}: ${err}`)
+                );
+            }
+        });
     }
 
-    revive(panel: cloudide.WebviewPanel, context: cloudide.ExtensionContext, opts: WebviewOptions, state: any): void {
-        const webviewContainer = this._container.get(opts.viewType);
-        if (webviewContainer && webviewContainer.disposed) {
-            panel.reveal(panel.viewColumn, opts.preserveFocus);
-        } else {
+    /**
+     * Listen to locale switches made with setLocale.
+     */
+    public onDidChangeLocale(listener: (locale: string) => void): cloudide.Disposable {
+        return this.localization.onDidChangeLocale(listener);
+    }
+
+    /**
+     * Register a template engine that can be used with WebviewOptions.templateEngine, e.g. handlebars or markdown.
+     * 'ejs' and 'pug' are registered by default.
+     * @param name name of the engine used in WebviewOptions.templateEngine
+     * @param engine engine that compiles templates
+     */
+    public registerTemplateEngine(name: string, engine: TemplateEngine): void {
+        this.templateEngines.register(name, engine);
+    }
+
+    /**
+     * Revive panels of the view type when the IDE restarts, the panel is rendered again with the options
+     * and the page gets back the state it persisted with PluginPage.state.
+     * @param options options to render the revived panels with
+     * @param serializer hook to change the options of the revived panel, e.g. with the state of the page
+     */
+    public registerWebviewPanelSerializer(
+        options: WebviewOptions,
+        serializer: WebviewPanelSerializer = {}
+    ): cloudide.Disposable {
+        const viewType = options.viewType;
+        const disposable = cloudide.window.registerWebviewPanelSerializer(viewType, {
+            deserializeWebviewPanel: async (panel: cloudide.WebviewPanel, state: PersistedWebviewState | undefined) => {
+                if (state?.viewType !== undefined && state.viewType !== viewType) {
+                    this.log(LogLevel.WARN, `panel of ${viewType} is not revived with the state of ${state.viewType}`);
+                    panel.dispose();
+                    return;
+                }
+                const resolved = serializer.resolveOptions
+                    ? await serializer.resolveOptions(options, state?.pageState)
+                    : options;
+                const opts = resolved && { ...resolved };
+                if (opts) {
+                    revivedOptionKeys.forEach((key) => ((opts as any)[key] = options[key]));
+                }
+                this.revive(panel, this.context, opts);
+            }
+        });
+        this.context.subscriptions.push(disposable);
+        return disposable;
+    }
+
+    /**
+     * Rebuild the webview panel revived by the IDE.
+     * @param panel revived webview panel
+     * @param options options to render the panel with, the panel is disposed if undefined
+     */
+    revive(
+        panel: cloudide.WebviewPanel,
+        context: cloudide.ExtensionContext,
+        options: WebviewOptions | undefined
+    ): BaseWebviewPanel | undefined {
+        const createdOnStart =
+            options &&
+            this.getInstances(options.viewType).some((instanceId) => {
+                const webviewContainer = this._container.get(instanceId);
+                return !(webviewContainer instanceof BaseWebviewPanel && webviewContainer.revivedPanel);
+            });
+        if (!options || createdOnStart) {
             // dispose webview if already revealed in case plugin is registered to start on event "*"
             panel.dispose();
+            return undefined;
         }
+        const revivedWebview = new BaseWebviewPanel(context, options, this.createInstanceId(options.viewType), panel);
+        Messaging.bind(revivedWebview, backendClientIdentifier);
+        this.container.set(revivedWebview.id, revivedWebview);
+        return revivedWebview;
+    }
+
+    /**
+     * Release what belongs to the page that is reloaded, and let the backends set up the page again once it is initialized.
+     * @param instanceId instance id of the reloaded page
+     * @param viewType view type of the reloaded page
+     * @param pageInitialized resolved when the reloaded page is initialized
+     */
+    onPageReload(instanceId: string, viewType: string, pageInitialized: Promise<boolean>): void {
+        (this.backends.get(DefaultPluginApiHost) as DefaultPluginApiHost | undefined)?.unsubscribeAllEvents(instanceId);
+        this.remoteStreams.disposeOwner(instanceId);
+        this.channels.disposeOwner(instanceId);
+        this.stores.disposeOwner(instanceId);
+        this.pageCommands.disposeOwner(instanceId);
+        pageInitialized.then((success) => {
+            if (!success) {
+                return;
+            }
+            this.backends.forEach((backend) => {
+                try {
+                    backend.onPageReload?.(instanceId, viewType);
+                } catch (e) {
+                    this.log(LogLevel.ERROR, `failed to set up reloaded page ${instanceId}: ${(<any>e).message}`);
+                }
+            });
+        });
     }
 
     dispose(viewType?: string): void {
@@ -348,12 +992,23 @@ export class Plugin {
                 webviewContainer.dispose();
             }
             this._container.delete(viewType);
+            (this.backends.get(DefaultPluginApiHost) as DefaultPluginApiHost | undefined)?.unsubscribeAllEvents(
+                viewType
+            );
+            this.remoteStreams.disposeOwner(viewType);
+            this.channels.disposeOwner(viewType);
+            this.stores.disposeOwner(viewType);
+            this.pageCommands.disposeOwner(viewType);
+            this.pageInjectors.get(viewType)?.dispose();
+            this.pageInjectors.delete(viewType);
             return;
         }
         this._container.forEach((webviewContainer: BaseWebviewContainer) => {
             webviewContainer.dispose();
             this._container.clear();
         });
+        this.pageInjectors.forEach((pageInjector) => pageInjector.dispose());
+        this.pageInjectors.clear();
     }
 
     get container(): Map<string, BaseWebviewContainer> {
@@ -361,9 +1016,7 @@ export class Plugin {
     }
 
     public stop(): void {
-        this.backends.forEach((backendInstance) => {
-            backendInstance.stop();
-        });
+        this.lifecycle.stop();
         this.dispose();
         this.context.subscriptions.forEach((disposable: any) => {
             disposable.dispose();
@@ -373,18 +1026,26 @@ export class Plugin {
 
 abstract class BaseWebviewContainer implements IframeLike {
     readonly context: cloudide.ExtensionContext;
-    readonly pageInitialized: Deferred<boolean> = new Deferred<boolean>();
-    protected i18n: CloudIDENlsConfig = nlsConfig;
+    pageInitialized: Deferred<boolean> = new Deferred<boolean>();
     protected _options: WebviewOptions;
     protected _disposed: boolean;
-    protected webview?: cloudide.Webview;
+    /**
+     * Webview the page is rendered into, undefined until a webview view is resolved.
+     */
+    webview?: cloudide.Webview;
     protected messageHandler?: (message: any) => void;
     protected disposedEventHandlers: ((...args: any[]) => void)[] = [];
+    private pageWatcher?: PageWatcher;
+    private readonly instanceId: string;
 
-    constructor(context: cloudide.ExtensionContext, opts: WebviewOptions) {
+    /**
+     * @param instanceId identifier of the page, defaults to the view type
+     */
+    constructor(context: cloudide.ExtensionContext, opts: WebviewOptions, instanceId?: string) {
         this._disposed = false;
         this.context = context;
         this._options = opts;
+        this.instanceId = instanceId || opts.viewType;
     }
 
     get disposed() {
@@ -395,22 +1056,104 @@ abstract class BaseWebviewContainer implements IframeLike {
         return this._options;
     }
 
+    /**
+     * Identifier of the page in Plugin.container and in messaging.
+     * The first page of a view type is identified by the view type, other pages of the view type by 'viewType#n'.
+     */
+    get id(): string {
+        return this.instanceId;
+    }
+
+    protected get i18n(): { locale: string; l10n: any } {
+        return Plugin.getInstance().localization.i18n;
+    }
+
     handleMessage(message: any) {
         // Only handle the message from the hosted page
         if (!message.from || !message.func) {
             return;
         }
-        Plugin.getInstance().dispatchMessage(this._options.viewType, message);
+        if (
+            !message.notify &&
+            functionName(message.func) === apiProxyFunction &&
+            Plugin.getInstance().apiPermissions.getPermissions(this._options)
+        ) {
+            this.handleApiCall(message);
+            return;
+        }
+        this.receiveMessage(message);
+    }
+
+    /**
+     * Pass the call to the CodeArts API on if the page is permitted to make it, otherwise reply with an ApiPermissionError.
+     */
+    private async handleApiCall(message: any) {
+        const [module, property] = message.args || [];
+        const error = await Plugin.getInstance().apiPermissions.check(this._options, `${module}.${property}`);
+        if (!error) {
+            this.receiveMessage(message);
+            return;
+        }
+        Plugin.getInstance().log(LogLevel.WARN, error.message);
+        this.postMessage({
+            id: message.id,
+            func: message.func,
+            ret: error,
+            success: false,
+            notify: true,
+            to: message.from,
+            from: message.to
+        });
+    }
+
+    private receiveMessage(message: any) {
+        const to = message.to;
+        if (to !== '*' && to !== Messaging.getInstance()?.from) {
+            Plugin.getInstance().dispatchMessage(this.id, message);
+            return;
+        }
         if (this.messageHandler) {
-            this.messageHandler(message);
+            if (!message.notify) {
+                // replace cancellation and callback markers
+                const plugin = Plugin.getInstance();
+                const args = plugin.remoteStreams.reviveCallbacks(
+                    message.from,
+                    plugin.remoteCancellation.reviveArgs(message.id, this.bindCaller(message)),
+                    (func, ...callbackArgs) => plugin.call(func, ...callbackArgs)
+                );
+                this.messageHandler({ ...message, args });
+            } else {
+                this.messageHandler(message);
+            }
         }
     }
 
+    /**
+     * Return the arguments of the call with the page it acts for replaced by this page, see callerArguments.
+     */
+    private bindCaller(message: any): any[] {
+        const index = callerArguments[functionName(message.func)];
+        if (index === undefined) {
+            return message.args;
+        }
+        const args = [...(message.args || [])];
+        args[index] = this.id;
+        return args;
+    }
+
     registerMessageHandler(messageHandler: (message: any) => void): void {
         this.messageHandler = messageHandler;
     }
 
     postMessage(message: any): void {
+        // the plugin posts every message to all pages, a page only gets the messages addressed to it
+        if (message.to !== '*' && message.to !== this.id) {
+            return;
+        }
+        if (message.notify) {
+            Plugin.getInstance().remoteCancellation.release(message.id);
+            message = Plugin.getInstance().remoteStreams.exportResult(message);
+        }
         this.webview?.postMessage(message);
     }
 
@@ -420,13 +1163,108 @@ abstract class BaseWebviewContainer implements IframeLike {
 
     public dispose() {
         this._disposed = true;
+        this.pageWatcher?.dispose();
         // fire event
         if (this.disposedEventHandlers) {
             this.disposedEventHandlers.forEach(async (eventHandler) => {
                 eventHandler();
             });
         }
-        Plugin.getInstance().dispose(this.options.viewType);
+        Plugin.getInstance().dispose(this.id);
+    }
+
+    /**
+     * Render the page again, the page is initialized again and keeps its state.
+     */
+    public reload(): void {
+        if (this._disposed || !this.webview) {
+            return;
+        }
+        this.pageInitialized = new Deferred<boolean>();
+        Plugin.getInstance().onPageReload(this.id, this._options.viewType, this.pageInitialized.promise);
+        this.webview.html = this.renderHtml(this._options.viewType, this._options.viewUrl, this._options.extData);
+    }
+
+    /**
+     * Directory of the copies of page scripts and stylesheets with rewritten references, see ResourceRewriter.
+     */
+    private get bundleCacheDir(): string {
+        return path.join(this.context.globalStorageUri.fsPath, 'page-bundles');
+    }
+
+    /**
+     * Local directories the webview loads files from.
+     */
+    protected get localResourceRoots(): cloudide.Uri[] {
+        return [
+            cloudide.Uri.file(path.join(this.context.extensionPath, 'resources')),
+            cloudide.Uri.file(this.bundleCacheDir)
+        ];
+    }
+
+    /**
+     * Put the nonce on the scripts loaded from the plugin and on the modules they preload.
+     * Inline scripts of templates carry the nonce passed to the template, so that markup rendered from data,
+     * e.g. extData, gets no nonce. Pages rendered without a template engine are files of the plugin as they are.
+     * @param trustInline whether inline scripts get the nonce
+     */
+    private trustScripts($: cheerio.Root, nonce: string, trustInline: boolean): void {
+        const localBases = [this.context.extensionPath, this.bundleCacheDir].map((dir) =>
+            this.toWebviewUri(dir).replace(/\/?$/, '/')
+        );
+        $('script, link[rel="modulepreload"]').each((index, element) => {
+            const source = $(element).attr('src') ?? $(element).attr('href');
+            if (source === undefined ? trustInline : localBases.some((base) => source.startsWith(base))) {
+                $(element).attr('nonce', nonce);
+            }
+        });
+    }
+
+    /**
+     * Watch the files of the local page if hot reload is enabled.
+     * @param files absolute paths of the entry file and the local assets of the page
+     */
+    private watchPage(files: string[]): void {
+        const hotReload = this._options.hotReload ?? this.context.extensionMode === cloudide.ExtensionMode.Development;
+        if (!hotReload) {
+            return;
+        }
+        if (!this.pageWatcher) {
+            this.pageWatcher = new PageWatcher(() => {
+                Plugin.getInstance().log(LogLevel.INFO, `reload ${this.id}`);
+                this.reload();
+            });
+        }
+        this.pageWatcher.watch(files);
+    }
+
+    /**
+     * Return the data that the page gets through acquireCloudidePluginApi.
+     * @param viewType view type of the page
+     * @param extData extra data passed to the page
+     */
+    public getPluginApiData(viewType: string, extData?: any): PluginApiData {
+        return {
+            viewType,
+            instanceId: this.id,
+            extData,
+            i18n: this.i18n,
+            extensionPath: this.context.extensionPath,
+            webviewOptions: this._options,
+            themeKind: getThemeKind(),
+            resourceBaseUri: this.toWebviewUri(this.context.extensionPath)
+        };
+    }
+
+    /**
+     * Return the URI the webview loads a local file with.
+     * @param filePath absolute path of the file
+     */
+    public toWebviewUri(filePath: string): string {
+        const fileUri = cloudide.Uri.file(filePath);
+        return this.webview?.asWebviewUri
+            ? this.webview.asWebviewUri(fileUri).toString()
+            : fileUri.with({ scheme: 'theia-resource' }).toString();
     }
 
     public renderHtml(viewType: string, webviewUrl: string, extData?: any) {
@@ -434,6 +1272,9 @@ abstract class BaseWebviewContainer implements IframeLike {
             return '';
         }
         const extensionPath = this.context.extensionPath;
+        const pluginApiData = this.getPluginApiData(viewType, extData);
+        const cspOptions = this._options.contentSecurityPolicy || {};
+        const nonce = createNonce();
         let iframeHtmlUri = cloudide.Uri.file(path.join(extensionPath, 'resources/page', 'index.html'))
             .with({ scheme: 'theia-resource' })
             .toString();
@@ -441,21 +1282,70 @@ abstract class BaseWebviewContainer implements IframeLike {
             const localEntryPoint = webviewUrl.replace('local:', '');
             const pathPrefix = localEntryPoint.substring(0, localEntryPoint.lastIndexOf('/'));
             const localEntryPath = path.join(extensionPath, localEntryPoint);
-            let htmlData = fs.readFileSync(localEntryPath, 'utf8');
-
-            // render template to html
-            if (this._options.templateEngine === 'ejs') {
-                htmlData = ejs.render(htmlData, { l10n: this.i18n?.l10n, extData });
-            } else if (this._options.templateEngine === 'pug') {
-                htmlData = pug.render(htmlData, { l10n: this.i18n?.l10n, extData });
+            const pageFiles = [localEntryPath];
+            const templateEngines = Plugin.getInstance().templateEngines;
+            let htmlData: string;
+            try {
+                // render template to html
+                htmlData = templateEngines.render(this._options.templateEngine, localEntryPath, {
+                    l10n: this.i18n?.l10n,
+                    extData,
+                    nonce
+                });
+            } catch (e) {
+                Plugin.getInstance().log(LogLevel.ERROR, `failed to render ${viewType}: ${(<any>e).message}`);
+                // keep watching the template and its includes, so that the page recovers once the template is fixed
+                this.watchPage([...pageFiles, ...templateEngines.dependencies(localEntryPath)]);
+                return renderTemplateErrorPage(e as TemplateError);
             }
+            pageFiles.push(...templateEngines.dependencies(localEntryPath));
             const $ = cheerio.load(htmlData);
-            $('head').prepend(`<script>
+            // rewrite the assets of the page before the bootstrap script is added, it refers to no assets
+            const resourceRewriter = new ResourceRewriter(
+                path.join(extensionPath, pathPrefix),
+                (filePath) => this.toWebviewUri(filePath),
+                { rootDir: extensionPath, cacheDir: this.bundleCacheDir }
+            );
+            resourceRewriter.rewriteHtml($);
+            pageFiles.push(...resourceRewriter.localFiles);
+            $('head').prepend(`<script nonce="${nonce}">
                 const acquireCloudidePluginApi = (function() {
                     let acquired = false;
-                    let extData = ${extData ? `JSON.parse(${JSON.stringify(JSON.stringify(extData))})` : undefined};
-                    let i18n = ${this.i18n ? `JSON.parse(${JSON.stringify(JSON.stringify(this.i18n))})` : undefined};
-                    let extensionPath = '${encodeURIComponent(this.context.extensionPath)}';
+                    let cspViolations = [];
+                    let cspViolationListener;
+                    ${
+                        cspOptions.debug
+                            ? `document.addEventListener('securitypolicyviolation', function(e) {
+                        const violation = {
+                            blockedURI: e.blockedURI,
+                            violatedDirective: e.violatedDirective,
+                            sourceFile: e.sourceFile,
+                            lineNumber: e.lineNumber
+                        };
+                        if (cspViolationListener) {
+                            cspViolationListener(violation);
+                        } else {
+                            cspViolations.push(violation);
+                        }
+                    });`
+                            : ''
+                    }
+                    let extData = ${
+                        pluginApiData.extData
+                            ? `JSON.parse(${JSON.stringify(JSON.stringify(pluginApiData.extData))})`
+                            : undefined
+                    };
+                    let i18n = ${
+                        pluginApiData.i18n
+                            ? `JSON.parse(${JSON.stringify(JSON.stringify(pluginApiData.i18n))})`
+                            : undefined
+                    };
+                    let extensionPath = '${encodeURIComponent(pluginApiData.extensionPath)}';
+                    let themeKind = '${pluginApiData.themeKind}';
+                    let resourceBaseUri = '${encodeURIComponent(pluginApiData.resourceBaseUri || '')}';
+                    let webviewOptions = JSON.parse(${JSON.stringify(
+                        JSON.stringify(pluginApiData.webviewOptions || null)
+                    )});
                     return () => {
                         if (acquired) {
 						    throw new Error('An instance of the CloudIDE Plugin API has already been acquired');
@@ -463,7 +1353,10 @@ abstract class BaseWebviewContainer implements IframeLike {
                         acquired = true;
                         return Object.freeze({
                             getViewType: function() {
-                                return '${viewType}';
+                                return '${pluginApiData.viewType}';
+                            },
+                            getInstanceId: function() {
+                                return '${pluginApiData.instanceId}';
                             },
                             getExtData: function() {
                                 return extData;
@@ -473,47 +1366,61 @@ abstract class BaseWebviewContainer implements IframeLike {
                             },
                             getExtensionPath: function() {
                                 return decodeURIComponent(extensionPath);
+                            },
+                            getWebviewOptions: function() {
+                                return webviewOptions;
+                            },
+                            getThemeKind: function() {
+                                return themeKind;
+                            },
+                            getResourceBaseUri: function() {
+                                return decodeURIComponent(resourceBaseUri);
+                            },
+                            onCspViolation: function(listener) {
+                                cspViolationListener = listener;
+                                cspViolations.forEach(listener);
+                                cspViolations = [];
                             }
                         });
                     };
                 })();
             </script>`);
-            $('[href], [src]').each((index: any, HtmlElement: any) => {
-                const originSrc = $(HtmlElement).attr('src');
-                const originHref = $(HtmlElement).attr('href');
-                if (originSrc && !originSrc.startsWith('http')) {
-                    $(HtmlElement).attr(
-                        'src',
-                        cloudide.Uri.file(path.join(extensionPath, `${pathPrefix}/${originSrc}`))
-                            .with({ scheme: 'theia-resource' })
-                            .toString()
-                    );
-                } else if (originHref && !originHref.startsWith('http')) {
-                    $(HtmlElement).attr(
-                        'href',
-                        cloudide.Uri.file(path.join(extensionPath, `${pathPrefix}/${originHref}`))
-                            .with({ scheme: 'theia-resource' })
-                            .toString()
-                    );
-                }
-            });
+            this.trustScripts($, nonce, !this._options.templateEngine);
+            const policy = localPagePolicy(nonce, this.webview?.cspSource || 'theia-resource:', cspOptions);
+            $('head').prepend(`<meta http-equiv="Content-Security-Policy" content="${policy}">`);
+            // styles of the theme apply before the page script runs, so that the page does not flash on first paint
+            $('html').addClass(`theme-${pluginApiData.themeKind}`);
+            this.watchPage(pageFiles);
 
             return $.html();
         } else {
             iframeHtmlUri = webviewUrl;
             webviewUrl = new URL(webviewUrl).origin;
         }
-        const nonce = uuid();
+        const allowedOrigins = this._options.remoteBridge?.allowedOrigins || [webviewUrl];
+        const bridgeScript = this._options.remoteBridge
+            ? remoteBridgeScript(nonce, {
+                  allowedOrigins,
+                  pluginApiData: {
+                      viewType: pluginApiData.viewType,
+                      instanceId: pluginApiData.instanceId,
+                      extData: pluginApiData.extData,
+                      i18n: pluginApiData.i18n,
+                      themeKind: pluginApiData.themeKind
+                  },
+                  messageTypes: bridgeMessageTypes
+              })
+            : '';
+        const frameSources = [...new Set([webviewUrl, ...(this._options.remoteBridge ? allowedOrigins : [])])];
 
         return `<!DOCTYPE html>
             <html lang="en">
             <head>
                 <meta charset="UTF-8">
-                <!--
-                Use a content security policy to only allow loading images from https or from our extension directory,
-                scripts that have a specific nonce and only allow unsafe-inline for theme styles.
-                <meta http-equiv="Content-Security-Policy" content="default-src 'self'  http://schemastore.azurewebsites.net ${webviewUrl}; style-src 'unsafe-inline';
-                img-src theia-resource: https: http: data:; script-src 'nonce-${nonce}' 'self';"> -->
+                <meta http-equiv="Content-Security-Policy" content="${iframeWrapperPolicy(
+                    nonce,
+                    frameSources.join(' ')
+                )}">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <title>Huawei cloudide plugin</title>
                 <style>
@@ -534,14 +1441,15 @@ abstract class BaseWebviewContainer implements IframeLike {
             </head>
             <body style="background: var(--theia-layout-color1);margin: 0;">
                 <iframe src="${iframeHtmlUri}" style="width: 100%; height: 100%;"></iframe>
+                ${bridgeScript}
             </body>
             </html>`;
     }
 }
 
 class BaseWebviewDialogProvider extends BaseWebviewContainer {
-    constructor(context: cloudide.ExtensionContext, opts: WebviewOptions) {
-        super(context, opts);
+    constructor(context: cloudide.ExtensionContext, opts: WebviewOptions, instanceId?: string) {
+        super(context, opts, instanceId);
     }
 
     resolveWebviewView(
@@ -554,7 +1462,7 @@ class BaseWebviewDialogProvider extends BaseWebviewContainer {
         this.webview = webviewView.webview;
         webviewView.webview.options = {
             enableScripts: true,
-            localResourceRoots: [cloudide.Uri.file(path.join(this.context.extensionPath, 'resources'))]
+            localResourceRoots: this.localResourceRoots
         };
         webviewView.webview.html = this.renderHtml(
             this._options.viewType,
@@ -568,21 +1476,151 @@ class BaseWebviewDialogProvider extends BaseWebviewContainer {
     }
 }
 
+/**
+ * Webview view with the badge shown on the icon of the view container, not declared by all versions of the API.
+ */
+type BadgedWebviewView = cloudide.WebviewView & { badge?: { value: number; tooltip: string } };
+
+/**
+ * Provider of a webview view contributed in package.json, the IDE resolves it each time the view is opened.
+ */
+class BaseWebviewViewProvider extends BaseWebviewDialogProvider {
+    private webviewView?: BadgedWebviewView;
+    private visibilityListener?: cloudide.Disposable;
+    private info: WebviewViewInfo = {};
+
+    resolveWebviewView(
+        webviewView: cloudide.WebviewView,
+        context: cloudide.WebviewViewResolveContext<unknown>,
+        token: cloudide.CancellationToken
+    ): void | Thenable<void> {
+        if (this._disposed) {
+            // the view is opened again after the user closed it
+            this._disposed = false;
+            this.pageInitialized = new Deferred<boolean>();
+            Plugin.getInstance().container.set(this._options.viewType, this);
+            // messaging drops the provider when it is disposed
+            Messaging.bind(this, backendClientIdentifier);
+        }
+        this.webviewView = webviewView;
+        this.applyInfo();
+        this.visibilityListener?.dispose();
+        this.visibilityListener = webviewView.onDidChangeVisibility(() =>
+            Plugin.getInstance().onWebviewViewVisibilityChange(this._options.viewType, webviewView.visible)
+        );
+        return super.resolveWebviewView(webviewView, context, token);
+    }
+
+    update(info: WebviewViewInfo): void {
+        this.info = { ...this.info, ...info };
+        this.applyInfo();
+    }
+
+    private applyInfo(): void {
+        const webviewView = this.webviewView;
+        if (!webviewView || this._disposed) {
+            return;
+        }
+        if (this.info.title !== undefined) {
+            webviewView.title = this.info.title;
+        }
+        if (this.info.description !== undefined) {
+            webviewView.description = this.info.description;
+        }
+        if (this.info.badge !== undefined) {
+            webviewView.badge = this.info.badge || undefined;
+        }
+    }
+}
+
+/**
+ * Page of a document opened in a custom editor, each document opened has its own instance.
+ */
+class BaseCustomEditorPanel extends BaseWebviewContainer {
+    readonly session: CustomDocumentSession;
+    private readonly pendingDocumentChanges: TextDocumentChangeEventDto[] = [];
+
+    constructor(
+        context: cloudide.ExtensionContext,
+        opts: WebviewOptions,
+        instanceId: string,
+        readonly pluginPanel: cloudide.WebviewPanel,
+        document: cloudide.TextDocument
+    ) {
+        super(context, opts, instanceId);
+        this.session = new CustomDocumentSession(
+            document,
+            (event) => {
+                this.pendingDocumentChanges.push(event);
+                this.sendDocumentChanges();
+            },
+            () => pluginPanel.reveal()
+        );
+        this.webview = pluginPanel.webview;
+        this.webview.options = {
+            enableScripts: true,
+            localResourceRoots: this.localResourceRoots
+        };
+        this.webview.html = this.renderHtml(this._options.viewType, this._options.viewUrl, this._options.extData);
+        pluginPanel.onDidDispose(() => this.dispose());
+        this.webview.onDidReceiveMessage((message: any) => {
+            this.handleMessage(message);
+        });
+    }
+
+    public dispose() {
+        if (this._disposed) {
+            return;
+        }
+        super.dispose();
+        this.session.dispose();
+        this.pluginPanel.dispose();
+    }
+
+    /**
+     * Send the changes of the document to the page, changes made while the page loads are sent once it is initialized.
+     * The page drops the changes that the snapshot it got already includes.
+     */
+    private sendDocumentChanges(): void {
+        const pageInitialized = this.pageInitialized;
+        if (pageInitialized.isPending) {
+            pageInitialized.promise.then((success) => {
+                // a page that failed gets a new snapshot when it is loaded again
+                if (!success && pageInitialized === this.pageInitialized) {
+                    this.pendingDocumentChanges.length = 0;
+                }
+                // waits for the reloaded page if the page is reloaded meanwhile
+                this.sendDocumentChanges();
+            });
+            return;
+        }
+        this.pendingDocumentChanges.splice(0).forEach((event) =>
+            Plugin.getInstance()
+                .call(`${this.id}::plugin.page.onDocumentChange`, event)
+                .catch((err) => Plugin.getInstance().log(LogLevel.ERROR, `failed to sync ${this.id}: ${err}`))
+        );
+    }
+}
+
 class BaseWebviewPanel extends BaseWebviewContainer {
     readonly pluginPanel: cloudide.WebviewPanel;
     protected messageHandler?: (message: any) => void;
     protected disposedEventHandlers: ((...args: any[]) => void)[] = [];
 
-    constructor(context: cloudide.ExtensionContext, opts: WebviewOptions) {
-        super(context, opts);
-        // compatiable with plugin generated with generator of previous version (version < 0.2.3)
-        if (!this.i18n.l10n) {
-            initNlsConfig(context.extensionPath);
-            this.i18n = nlsConfig;
-        }
+    /**
+     * @param instanceId identifier of the page among the pages of the view type
+     * @param revivedPanel panel revived by the IDE, a new panel is created if not defined
+     */
+    constructor(
+        context: cloudide.ExtensionContext,
+        opts: WebviewOptions,
+        instanceId?: string,
+        readonly revivedPanel?: cloudide.WebviewPanel
+    ) {
+        super(context, opts, instanceId);
 
         // create default plugin page webview panel
-        this.pluginPanel = this.createWebviewPanel(this._options);
+        this.pluginPanel = revivedPanel || this.createWebviewPanel(this._options);
         this.webview = this.pluginPanel.webview;
         this.pluginPanel.webview.html = this.renderHtml(
             this._options.viewType,
@@ -610,18 +1648,11 @@ class BaseWebviewPanel extends BaseWebviewContainer {
             {
                 area: opts.targetArea || 'main',
                 preserveFocus: opts.preserveFocus ? opts.preserveFocus : false,
-                iconPath: opts.iconPath
-                    ? cloudide.Uri.file(
-                          path.join(
-                              this.context.extensionPath,
-                              typeof opts.iconPath === 'object' ? opts.iconPath.light : opts.iconPath
-                          )
-                      )
-                    : undefined
+                iconPath: resolveIconPath(this.context.extensionPath, opts.iconPath)
             },
             {
                 enableScripts: true,
-                localResourceRoots: [cloudide.Uri.file(path.join(this.context.extensionPath, 'resources'))],
+                localResourceRoots: this.localResourceRoots,
                 retainContextWhenHidden: true
             }
         );
@@ -634,12 +1665,22 @@ class BaseWebviewPanel extends BaseWebviewContainer {
     }
 }
 
+/**
+ * Event subscription of a page, subscriptions without options share the same delivery and have no id.
+ */
+interface EventSubscription {
+    id?: string;
+    options?: SubscribeOptions;
+    rateLimiter?: EventRateLimiter;
+}
+
 /**
  * default plugin backend api exposed to frontend page
  */
 @exposable
 class DefaultPluginApiHost extends AbstractBackend {
-    readonly subscribedEvents: string[] = [];
+    // subscriptions of each view type to each event type
+    readonly subscribedEvents: Map<string, Map<string, EventSubscription[]>> = new Map();
     readonly supportedEventTypes: Map<string, cloudide.Event<any>> = new Map()
         // events from workspace module
         .set(EventType.WORKSPACE_ONDIDCHANGEWORKSPACEFOLDERS, cloudide.workspace.onDidChangeWorkspaceFolders)
@@ -699,6 +1740,8 @@ class DefaultPluginApiHost extends AbstractBackend {
         .set(EventType.WINDOW_ONDIDCHANGETERMINALSTATE, cloudide.window.onDidChangeTerminalState)
         .set(EventType.WINDOW_ONDIDCHANGEWINDOWSTATE, cloudide.window.onDidChangeWindowState);
 
+    readonly eventSerializers: Map<string, EventSerializer> = new Map(Object.entries(defaultEventSerializers));
+
     private huaweiCommonApi?: any;
 
     public async init(): Promise<void> {
@@ -710,14 +1753,14 @@ class DefaultPluginApiHost extends AbstractBackend {
     }
 
     public stop(): void {
-        this.subscribedEvents.length = 0;
+        this.subscribedEvents.forEach((eventTypes, viewType) => this.unsubscribeAllEvents(viewType));
     }
 
     private registerEventListener() {
         this.supportedEventTypes.forEach((onEvent, eventType) => {
             this.context.subscriptions.push(
                 onEvent((event: any) => {
-                    if (this.subscribedEvents.indexOf(eventType) >= 0) {
+                    if (this.isSubscribed(eventType)) {
                         this.resolveEventPropertiesThenFireEvent(eventType, event);
                     }
                 })
@@ -725,22 +1768,54 @@ class DefaultPluginApiHost extends AbstractBackend {
         });
     }
 
-    private async resolveEventPropertiesThenFireEvent(eventType: string, event: any) {
-        switch (eventType) {
-            case EventType.WINDOW_ONDIDOPENTERMINAL:
-            case EventType.WINDOW_ONDIDCLOSETERMINAL:
-            case EventType.WINDOW_ONDIDCHANGEACTIVETERMINAL: {
-                const values = await event.processId;
-                this.fireTheiaEvent(eventType, {
-                    name: event.name,
-                    processId: values,
-                    state: event.state,
-                    exitStatus: event.exitStatus
-                });
-                break;
+    /**
+     * Check that the page may create webviews with the function and return the options of the new webview,
+     * whose permissions are no wider than those of the page.
+     * @param creatorId the page that makes the call, set by the container that received it
+     */
+    private async creatableOptions<T extends WebviewOptions>(func: string, opts: T, creatorId?: string): Promise<T> {
+        const creator = creatorId ? Plugin.getInstance().container.get(creatorId) : undefined;
+        if (!creator) {
+            throw new Error(`${func} is called by ${creatorId}, which is not an open page`);
+        }
+        const apiPermissions = Plugin.getInstance().apiPermissions;
+        const error = await apiPermissions.check(creator.options, func);
+        if (error) {
+            throw error;
+        }
+        return apiPermissions.inherit(creator.options, opts);
+    }
+
+    /**
+     * @param pageId the page that sent the request, set by the container that received it
+     */
+    private customDocument(pageId: string): CustomDocumentSession {
+        const session = Plugin.getInstance().getCustomDocument(pageId);
+        if (!session) {
+            throw new Error(`${pageId} is not the page of a custom editor`);
+        }
+        return session;
+    }
+
+    private isSubscribed(eventType: string): boolean {
+        for (const eventTypes of this.subscribedEvents.values()) {
+            if (eventTypes.has(eventType)) {
+                return true;
             }
-            default:
-                this.fireTheiaEvent(eventType, event);
+        }
+        return false;
+    }
+
+    private async resolveEventPropertiesThenFireEvent(eventType: string, event: any) {
+        const serializer = this.eventSerializers.get(eventType);
+        if (!serializer) {
+            this.fireTheiaEvent(eventType, event);
+            return;
+        }
+        try {
+            this.fireTheiaEvent(eventType, await serializer(event, this.plugin.manifest));
+        } catch (e) {
+            this.plugin.log(LogLevel.ERROR, `failed to serialize event ${eventType}: ${(<any>e).message}`);
         }
     }
 
@@ -750,9 +1825,14 @@ class DefaultPluginApiHost extends AbstractBackend {
         return this.plugin.manifest;
     }
 
+    @expose('plugin.setLocale')
+    public setLocale(locale: string): void {
+        this.plugin.setLocale(locale);
+    }
+
     @expose('plugin.onPageInit')
-    public onPageInit(viewType: string, success?: boolean): boolean {
-        const viewContainer = Plugin.getInstance().container.get(viewType);
+    public onPageInit(instanceId: string, success?: boolean): boolean {
+        const viewContainer = Plugin.getInstance().container.get(instanceId);
         if (!viewContainer) {
             return false;
         }
@@ -763,8 +1843,9 @@ class DefaultPluginApiHost extends AbstractBackend {
     }
 
     @expose('plugin.createDynamicWebview')
-    public createDynamicWebview(opts: WebviewOptions, override?: boolean): boolean {
-        if (!Plugin.getInstance().createWebviewPanel(opts, override)) {
+    public async createDynamicWebview(opts: WebviewOptions, override?: boolean, creatorId?: string): Promise<boolean> {
+        const options = await this.creatableOptions('plugin.createDynamicWebview', opts, creatorId);
+        if (!Plugin.getInstance().createWebviewPanel(options, override)) {
             return false;
         }
         return true;
@@ -776,8 +1857,9 @@ class DefaultPluginApiHost extends AbstractBackend {
     }
 
     @expose('plugin.createWebviewPanel')
-    public createWebviewPanel(opts: WebviewOptions, override?: boolean): boolean {
-        if (!Plugin.getInstance().createWebviewPanel(opts, override)) {
+    public async createWebviewPanel(opts: WebviewOptions, override?: boolean, creatorId?: string): Promise<boolean> {
+        const options = await this.creatableOptions('plugin.createWebviewPanel', opts, creatorId);
+        if (!Plugin.getInstance().createWebviewPanel(options, override)) {
             return false;
         }
         return true;
@@ -789,21 +1871,102 @@ class DefaultPluginApiHost extends AbstractBackend {
     }
 
     @expose('plugin.createWebviewViewDialog')
-    public createWebviewViewDialog(opts: WebviewOptions): boolean {
-        if (!Plugin.getInstance().createWebviewViewDialog(opts)) {
+    public async createWebviewViewDialog(opts: WebviewOptions, creatorId?: string): Promise<boolean> {
+        const options = await this.creatableOptions('plugin.createWebviewViewDialog', opts, creatorId);
+        if (!Plugin.getInstance().createWebviewViewDialog(options)) {
             return false;
         }
         return true;
     }
 
     @expose('plugin.registerProjectWizardProvider')
-    public registerProjectWizardProvider(opts: WebviewOptions): boolean {
-        if (!Plugin.getInstance().registerProjectWizardProvider(opts)) {
+    public async registerProjectWizardProvider(opts: WebviewOptions, creatorId?: string): Promise<boolean> {
+        const options = await this.creatableOptions('plugin.registerProjectWizardProvider', opts, creatorId);
+        if (!Plugin.getInstance().registerProjectWizardProvider(options)) {
+            return false;
+        }
+        return true;
+    }
+
+    @expose('plugin.registerWebviewViewProvider')
+    public async registerWebviewViewProvider(opts: WebviewOptions, creatorId?: string): Promise<boolean> {
+        const options = await this.creatableOptions('plugin.registerWebviewViewProvider', opts, creatorId);
+        if (!Plugin.getInstance().registerWebviewViewProvider(options)) {
             return false;
         }
         return true;
     }
 
+    @expose('plugin.updateWebviewView')
+    public updateWebviewView(viewType: string, info: WebviewViewInfo): boolean {
+        return Plugin.getInstance().updateWebviewView(viewType, info);
+    }
+
+    /**
+     * @param instanceId the page that sent the request, set by the container that received it
+     */
+    @expose('plugin.commands')
+    public onCommandRequest(
+        instanceId: string,
+        request: 'register' | 'unregister',
+        id: string,
+        options?: PageCommandOptions
+    ): void {
+        Plugin.getInstance().onCommandRequest(instanceId, request, id, options);
+    }
+
+    /**
+     * @param instanceId the page that sent the request, set by the container that received it
+     */
+    @expose('plugin.channel')
+    public onChannelRequest(
+        instanceId: string,
+        request: 'subscribe' | 'unsubscribe' | 'publish',
+        channel: string,
+        data?: any
+    ): void {
+        Plugin.getInstance().onChannelRequest(instanceId, request, channel, data);
+    }
+
+    /**
+     * @param instanceId the page that sent the request, set by the container that received it
+     */
+    @expose('plugin.store')
+    public onStoreRequest(
+        instanceId: string,
+        request: 'subscribe' | 'unsubscribe' | 'snapshot' | 'patch',
+        name: string,
+        patch?: JsonPatchOperation[],
+        baseVersion?: number
+    ): StoreSnapshot | number | void {
+        return Plugin.getInstance().onStoreRequest(instanceId, request, name, patch, baseVersion);
+    }
+
+    @expose('plugin.getInstances')
+    public getInstances(viewType: string): string[] {
+        return Plugin.getInstance().getInstances(viewType);
+    }
+
+    @expose('plugin.customEditor.getDocument')
+    public getCustomDocument(pageId: string): CustomDocumentSnapshot {
+        return this.customDocument(pageId).getSnapshot();
+    }
+
+    @expose('plugin.customEditor.applyEdit')
+    public applyCustomDocumentEdit(pageId: string, edits: CustomDocumentEdit[]): Promise<boolean> {
+        return this.customDocument(pageId).applyEdit(edits);
+    }
+
+    @expose('plugin.customEditor.save')
+    public saveCustomDocument(pageId: string): Promise<boolean> {
+        return this.customDocument(pageId).save();
+    }
+
+    @expose('plugin.customEditor.execute')
+    public executeCustomDocumentCommand(pageId: string, command: 'undo' | 'redo' | 'revert'): Promise<void> {
+        return this.customDocument(pageId).execute(command);
+    }
+
     @expose('plugin.api')
     public getTheiaApi(...property: string[]): any {
         const properties = {};
@@ -854,16 +2017,82 @@ class DefaultPluginApiHost extends AbstractBackend {
         return retEventTypes;
     }
 
+    /**
+     * Subscribe the page of viewType to the event, a page calling it always subscribes itself.
+     * Events filtered out by options.filter are not sent to the page.
+     * @param subscriptionId passed back to the page with the events delivered for this subscription
+     */
     @expose('plugin.subscribeEvent')
-    public subscribeEvent(eventType: string): void {
-        if (this.supportedEventTypes.get(eventType) && this.subscribedEvents.indexOf(eventType) < 0) {
-            this.subscribedEvents.push(eventType);
+    public subscribeEvent(
+        eventType: string,
+        viewType: string = allViewTypes,
+        options?: SubscribeOptions,
+        subscriptionId?: string
+    ): void {
+        let eventTypes = this.subscribedEvents.get(viewType);
+        if (!eventTypes) {
+            eventTypes = new Map();
+            this.subscribedEvents.set(viewType, eventTypes);
+        }
+        let subscriptions = eventTypes.get(eventType);
+        if (!subscriptions) {
+            subscriptions = [];
+            eventTypes.set(eventType, subscriptions);
         }
+        const subscription: EventSubscription = { id: subscriptionId || undefined, options };
+        if (options?.rateLimit) {
+            subscription.rateLimiter = new EventRateLimiter(options.rateLimit, (event) =>
+                this.sendEvent(viewType, eventType, event, subscriptionId)
+            );
+        }
+        subscriptions.push(subscription);
     }
 
     @expose('plugin.unsubscribeEvent')
-    public unsubscribeEvent(eventType: string): void {
-        this.subscribedEvents.splice(this.subscribedEvents.indexOf(eventType), 1);
+    public unsubscribeEvent(eventType: string, viewType: string = allViewTypes, subscriptionId?: string): void {
+        const eventTypes = this.subscribedEvents.get(viewType);
+        const subscriptions = eventTypes?.get(eventType);
+        const index = subscriptions
+            ? subscriptions.findIndex((subscription) => subscription.id === (subscriptionId || undefined))
+            : -1;
+        if (!eventTypes || !subscriptions || index < 0) {
+            return;
+        }
+        subscriptions.splice(index, 1)[0].rateLimiter?.dispose();
+        if (subscriptions.length === 0) {
+            eventTypes.delete(eventType);
+        }
+        if (eventTypes.size === 0) {
+            this.subscribedEvents.delete(viewType);
+        }
+    }
+
+    @expose('plugin.unsubscribeAllEvents')
+    public unsubscribeAllEvents(viewType: string = allViewTypes): void {
+        this.subscribedEvents.get(viewType)?.forEach((subscriptions) => {
+            subscriptions.forEach((subscription) => subscription.rateLimiter?.dispose());
+        });
+        this.subscribedEvents.delete(viewType);
+    }
+
+    @expose('plugin.cancelCall')
+    public cancelCall(cancellationId: string): void {
+        this.plugin.remoteCancellation.cancel(cancellationId);
+    }
+
+    @expose('plugin.streamNext')
+    public streamNext(streamId: string): Promise<IteratorResult<any>> {
+        return this.plugin.remoteStreams.next(streamId);
+    }
+
+    @expose('plugin.streamReturn')
+    public streamReturn(streamId: string): Promise<void> {
+        return this.plugin.remoteStreams.return(streamId);
+    }
+
+    @expose('plugin.invokeCallback')
+    public invokeCallback(callbackId: string, ...args: any[]): void {
+        this.plugin.remoteStreams.invokeCallback(callbackId, ...args);
     }
 
     @expose('plugin.fireEvent')
@@ -874,7 +2103,7 @@ class DefaultPluginApiHost extends AbstractBackend {
         }
     }
 
-    @expose('codearts')
+    @expose(apiProxyFunction)
     public theiaApi(module: string, property: string, ...args: any[]): any {
         if (!module || !property) {
             return Promise.reject('module or property not specified.');
@@ -888,15 +2117,49 @@ class DefaultPluginApiHost extends AbstractBackend {
         }
     }
 
+    /**
+     * Log a record of a page, tagged with the view type of the page whatever fields the page passes.
+     * @param instanceId the page that sent the record, set by the container that received it
+     */
     @expose('plugin.log')
-    public log(level: LogLevel, message: string): void {
-        Plugin.getInstance().log(level, message);
+    public log(instanceId: string, level: LogLevel, message: string, fields?: LogFields): void {
+        const viewType = Plugin.getInstance().container.get(instanceId)?.options.viewType || instanceId;
+        Plugin.getInstance().log(level, message, { ...fields, viewType });
+    }
+
+    private sendEvent(viewType: string, type: string, event: any, subscriptionId?: string) {
+        const messagingInstance = Messaging.getInstance();
+        if (!messagingInstance) {
+            return;
+        }
+        const target = viewType === allViewTypes ? 'plugin.page.onEvent' : `${viewType}::plugin.page.onEvent`;
+        const args = subscriptionId ? [type, event, subscriptionId] : [type, event];
+        messagingInstance.call(target, ...args).catch((err) => {
+            this.plugin.log(LogLevel.ERROR, `failed to fire event ${type} to ${viewType}: ${err}`);
+        });
     }
 
-    @call('plugin.page.onEvent')
     // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
     public fireTheiaEvent(type: string, event: any): void {
         // console.log(`firevent: ${type}`);
+        // deliver the event only to the pages subscribed to it
+        this.subscribedEvents.forEach((eventTypes, viewType) => {
+            const subscriptions = eventTypes.get(type) || [];
+            // subscriptions without options receive the event with a single call
+            if (subscriptions.some((subscription) => !subscription.id)) {
+                this.sendEvent(viewType, type, event);
+            }
+            subscriptions.forEach((subscription) => {
+                if (!subscription.id || !matchEventFilter(subscription.options?.filter, event)) {
+                    return;
+                }
+                if (subscription.rateLimiter) {
+                    subscription.rateLimiter.push(event);
+                } else {
+                    this.sendEvent(viewType, type, event, subscription.id);
+                }
+            });
+        });
         if (
             type === beforeUninstallEventType &&
             event &&
@@ -0,0 +1,90 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { RemotePluginApiData, bridgeMessageTypes } from '../common/remote-bridge';
+
+export interface RemoteBridgeConfig {
+    allowedOrigins: string[];
+    pluginApiData: RemotePluginApiData;
+    messageTypes: typeof bridgeMessageTypes;
+}
+
+/**
+ * Subset of the API returned by acquireVsCodeApi in the wrapper webview.
+ */
+interface WebviewApi {
+    postMessage(message: any): void;
+    getState(): any;
+    setState(state: any): void;
+}
+
+/**
+ * Relay messages between the plugin and the remote page embedded in the wrapper webview.
+ * Messages of the page are dropped unless it is loaded from an allowed origin and has completed the handshake,
+ * and the page may only send messages as itself. Of the state the page sets, only the page state is kept.
+ *
+ * Runs in the wrapper webview, where it is inlined with toString, so it must not refer to anything outside of it.
+ * @param wrapper window of the wrapper webview
+ * @param webviewApi API of the wrapper webview returned by acquireVsCodeApi
+ * @param frame iframe of the remote page
+ */
+export function relayRemotePage(
+    wrapper: Window,
+    webviewApi: WebviewApi,
+    frame: HTMLIFrameElement,
+    config: RemoteBridgeConfig
+) {
+    let pageOrigin: string | undefined;
+    wrapper.addEventListener('message', (event: MessageEvent) => {
+        const frameWindow = frame.contentWindow;
+        if (!frameWindow) {
+            return;
+        }
+        if (event.source !== frameWindow) {
+            // messages of the plugin
+            if (pageOrigin) {
+                frameWindow.postMessage(event.data, pageOrigin);
+            }
+            return;
+        }
+        const message = event.data || {};
+        if (config.allowedOrigins.indexOf(event.origin) < 0) {
+            return;
+        }
+        if (message.type === config.messageTypes.hello) {
+            pageOrigin = event.origin;
+            frameWindow.postMessage(
+                {
+                    type: config.messageTypes.welcome,
+                    pluginApiData: config.pluginApiData,
+                    state: webviewApi.getState()
+                },
+                pageOrigin
+            );
+        } else if (event.origin !== pageOrigin) {
+            return;
+        } else if (message.type === config.messageTypes.setState) {
+            webviewApi.setState({
+                viewType: config.pluginApiData.viewType,
+                pageState: (message.state || {}).pageState
+            });
+        } else if (message.from === config.pluginApiData.instanceId) {
+            webviewApi.postMessage(message);
+        }
+    });
+}
+
+/**
+ * Return the script of the wrapper webview that runs the bridge for the remote page in its iframe.
+ * @param nonce nonce of the scripts of the wrapper
+ */
+export function remoteBridgeScript(nonce: string, config: RemoteBridgeConfig): string {
+    // '<' is escaped so that data of the page cannot close the script element
+    const configJson = JSON.stringify(config).replace(/</g, '\\u003c');
+    return `<script nonce="${nonce}">
+                (${relayRemotePage.toString()})(window, acquireVsCodeApi(), document.querySelector('iframe'), ${configJson});
+            </script>`;
+}
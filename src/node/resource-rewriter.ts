@@ -0,0 +1,254 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as fs from 'fs';
+import * as path from 'path';
+
+// references the webview loads as they are: URLs with a scheme such as https: or data:, protocol relative URLs
+// and fragments
+const externalReference = /^(?:[a-zA-Z][a-zA-Z\d+.-]*:|\/\/|#)/;
+
+// url(...) and @import '...' in CSS
+const cssReference = /(url\(\s*)(['"]?)([^'")]+)\2(\s*\))|(@import\s+)(['"])([^'"]+)\6/g;
+
+// static imports, re-exports and dynamic imports of modules with a path, bare specifiers are left to the import map
+const moduleReference = /(\bimport\s*\(\s*|\bimport\s+|\bfrom\s*)(['"])(\.{0,2}\/[^'"]*)\2/g;
+
+// assets resolved against the URL of the module, new URL('./logo.png', import.meta.url)
+const moduleUrlReference = /(\bnew\s+URL\s*\(\s*)(['"])(\.{0,2}\/[^'"]*)\2(?=\s*,\s*import\.meta\.url\s*\))/g;
+
+// a candidate of a srcset, its URL may contain commas but does not end with one, e.g. a data: URI
+const srcsetCandidate = /[\s,]*?(\S*[^\s,])(?:,+|(\s[^,]*)?(?:,|$))/g;
+
+// scripts and stylesheets, the webview resolves the references in them against their own URIs
+const bundleFile = /\.(?:m?js|css)$/i;
+
+/**
+ * Directory the copies of scripts and stylesheets with rewritten references are written to.
+ */
+export interface BundleCache {
+    /**
+     * Directory of the files that are copied, usually the extension path, its layout is kept in the cache.
+     */
+    rootDir: string;
+    cacheDir: string;
+}
+
+/**
+ * Rewrite the references of a local page to its assets into URIs the webview can load.
+ * Relative references resolve against the directory of the page, and so do root relative references such as
+ * '/assets/index.js', which bundlers like Vite and Webpack emit by default.
+ * Covers src, href, srcset and poster attributes, inline styles, inline module scripts and import maps.
+ * The webview resolves root relative references in scripts and stylesheets loaded from files, e.g.
+ * import('/assets/chunk.js') or url(/assets/font.woff), against the root of their URIs instead. Such files,
+ * and the files importing them, are loaded from copies in the bundle cache with their references rewritten.
+ * Only module specifiers and new URL(..., import.meta.url) are rewritten in scripts, other string literals such as
+ * the dependency lists Vite preloads chunks with are not, build such pages with a relative base, e.g. base: './'.
+ */
+export class ResourceRewriter {
+    /**
+     * Local files referenced by the page, watched to reload the page when they change.
+     */
+    readonly localFiles: string[] = [];
+
+    // URIs the scripts and stylesheets are loaded with, either the file or its copy
+    private readonly bundleUris: Map<string, string> = new Map();
+
+    /**
+     * @param pageDir directory of the entry file of the page
+     * @param toWebviewUri return the URI the webview loads a local file with
+     * @param bundleCache where to copy scripts and stylesheets with root relative references, they are not
+     * rewritten if undefined
+     */
+    constructor(
+        private readonly pageDir: string,
+        private readonly toWebviewUri: (filePath: string) => string,
+        private readonly bundleCache?: BundleCache
+    ) {}
+
+    rewriteHtml($: cheerio.Root): void {
+        ['src', 'href', 'poster'].forEach((attribute) => {
+            $(`[${attribute}]`).each((index, element) => {
+                $(element).attr(attribute, this.rewriteUrl($(element).attr(attribute) || ''));
+            });
+        });
+        $('[srcset]').each((index, element) => {
+            $(element).attr('srcset', this.rewriteSrcset($(element).attr('srcset') || ''));
+        });
+        $('[style]').each((index, element) => {
+            $(element).attr('style', this.rewriteCss($(element).attr('style') || ''));
+        });
+        $('style').each((index, element) => {
+            $(element).text(this.rewriteCss($(element).html() || ''));
+        });
+        $('script[type="importmap"]').each((index, element) => {
+            $(element).text(this.rewriteImportMap($(element).html() || ''));
+        });
+        $('script[type="module"]:not([src])').each((index, element) => {
+            $(element).text(this.rewriteModuleScript($(element).html() || ''));
+        });
+    }
+
+    /**
+     * Return the webview URI of a local reference, external references are returned as they are.
+     */
+    rewriteUrl(reference: string): string {
+        return this.rewriteReference(reference, this.pageDir);
+    }
+
+    /**
+     * Return the webview URI of a local reference made in a file of the page.
+     * @param baseDir directory relative references resolve against, root relative references resolve against
+     * the directory of the page
+     */
+    private rewriteReference(reference: string, baseDir: string): string {
+        const trimmed = reference.trim();
+        if (!trimmed || externalReference.test(trimmed)) {
+            return reference;
+        }
+        // the query and the fragment are kept, they do not name the file
+        const suffixStart = trimmed.search(/[?#]/);
+        const filePath = suffixStart >= 0 ? trimmed.substring(0, suffixStart) : trimmed;
+        const suffix = suffixStart >= 0 ? trimmed.substring(suffixStart) : '';
+        let decodedPath = filePath;
+        try {
+            decodedPath = decodeURI(filePath);
+        } catch (e) {
+            // not percent-encoded, e.g. a file name with a '%'
+        }
+        const absolutePath = path.join(decodedPath.startsWith('/') ? this.pageDir : baseDir, decodedPath);
+        if (!this.localFiles.includes(absolutePath)) {
+            this.localFiles.push(absolutePath);
+        }
+        const uri = bundleFile.test(absolutePath)
+            ? this.rewriteBundleFile(absolutePath)
+            : this.toWebviewUri(absolutePath);
+        // keep the trailing slash of directories, import maps map path prefixes
+        return `${uri}${filePath.endsWith('/') && !uri.endsWith('/') ? '/' : ''}${suffix}`;
+    }
+
+    /**
+     * Rewrite the URLs of a srcset, e.g. 'logo.png 1x, logo@2x.png 2x'.
+     */
+    rewriteSrcset(srcset: string): string {
+        const candidates: string[] = [];
+        const candidate = new RegExp(srcsetCandidate);
+        let match: RegExpExecArray | null;
+        while ((match = candidate.exec(srcset))) {
+            const descriptors = (match[2] || '').trim().split(/\s+/).filter(Boolean);
+            candidates.push([this.rewriteUrl(match[1]), ...descriptors].join(' '));
+        }
+        return candidates.join(', ');
+    }
+
+    rewriteCss(css: string): string {
+        return this.replaceCssReferences(css, (reference) => this.rewriteUrl(reference));
+    }
+
+    /**
+     * Rewrite the module paths imported by an inline module script, they would resolve against the webview
+     * instead of the page directory.
+     */
+    rewriteModuleScript(code: string): string {
+        return this.replaceModuleReferences(code, (reference) => this.rewriteUrl(reference));
+    }
+
+    /**
+     * Rewrite the addresses and the path prefixes of an import map, bare specifiers are kept.
+     */
+    rewriteImportMap(json: string): string {
+        let importMap: any;
+        try {
+            importMap = JSON.parse(json);
+        } catch (e) {
+            // the browser reports the invalid import map
+            return json;
+        }
+        const rewriteSpecifierMap = (specifierMap: { [specifier: string]: string } = {}) =>
+            Object.keys(specifierMap).reduce((rewritten, specifier) => {
+                const key = /^\.{0,2}\//.test(specifier) ? this.rewriteUrl(specifier) : specifier;
+                rewritten[key] = this.rewriteUrl(specifierMap[specifier]);
+                return rewritten;
+            }, {} as { [specifier: string]: string });
+        const rewrittenMap: any = { ...importMap };
+        if (importMap.imports) {
+            rewrittenMap.imports = rewriteSpecifierMap(importMap.imports);
+        }
+        if (importMap.scopes) {
+            rewrittenMap.scopes = Object.keys(importMap.scopes).reduce((scopes, scope) => {
+                scopes[this.rewriteUrl(scope)] = rewriteSpecifierMap(importMap.scopes[scope]);
+                return scopes;
+            }, {} as { [scope: string]: { [specifier: string]: string } });
+        }
+        return JSON.stringify(rewrittenMap);
+    }
+
+    /**
+     * Return the URI a script or stylesheet is loaded with. A file with root relative references, or importing
+     * a file that is copied, is copied to the bundle cache with all its local references rewritten.
+     */
+    private rewriteBundleFile(filePath: string): string {
+        const loadedUri = this.bundleUris.get(filePath);
+        if (loadedUri) {
+            return loadedUri;
+        }
+        const fileUri = this.toWebviewUri(filePath);
+        // files importing each other in a cycle refer to the file being rewritten as it is
+        this.bundleUris.set(filePath, fileUri);
+        const relativePath = this.bundleCache && path.relative(this.bundleCache.rootDir, filePath);
+        if (!this.bundleCache || !relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return fileUri;
+        }
+        let content: string;
+        try {
+            content = fs.readFileSync(filePath, 'utf8');
+        } catch (e) {
+            // the webview reports the missing file
+            return fileUri;
+        }
+        const cacheUri = this.toWebviewUri(this.bundleCache.cacheDir);
+        let copied = false;
+        const rewrite = (reference: string) => {
+            const rewritten = this.rewriteReference(reference, path.dirname(filePath));
+            copied = copied || /^\/(?!\/)/.test(reference.trim()) || rewritten.startsWith(cacheUri);
+            return rewritten;
+        };
+        const rewrittenContent = filePath.toLowerCase().endsWith('.css')
+            ? this.replaceCssReferences(content, rewrite)
+            : this.replaceModuleReferences(content, rewrite);
+        if (!copied) {
+            return fileUri;
+        }
+        const copyPath = path.join(this.bundleCache.cacheDir, relativePath);
+        try {
+            if (!fs.existsSync(copyPath) || fs.readFileSync(copyPath, 'utf8') !== rewrittenContent) {
+                fs.mkdirSync(path.dirname(copyPath), { recursive: true });
+                fs.writeFileSync(copyPath, rewrittenContent);
+            }
+        } catch (e) {
+            return fileUri;
+        }
+        const copyUri = this.toWebviewUri(copyPath);
+        this.bundleUris.set(filePath, copyUri);
+        return copyUri;
+    }
+
+    private replaceCssReferences(css: string, rewrite: (reference: string) => string): string {
+        return css.replace(
+            cssReference,
+            (match, urlStart, urlQuote, url, urlEnd, importStart, importQuote, importUrl) =>
+                url !== undefined
+                    ? `${urlStart}${urlQuote}${rewrite(url)}${urlQuote}${urlEnd}`
+                    : `${importStart}${importQuote}${rewrite(importUrl)}${importQuote}`
+        );
+    }
+
+    private replaceModuleReferences(code: string, rewrite: (reference: string) => string): string {
+        const replaceReference = (match: string, start: string, quote: string, reference: string) =>
+            `${start}${quote}${rewrite(reference)}${quote}`;
+        return code.replace(moduleReference, replaceReference).replace(moduleUrlReference, replaceReference);
+    }
+}
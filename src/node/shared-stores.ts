@@ -0,0 +1,128 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as cloudide from '@codearts/plugin';
+import { JsonPatchOperation } from '../common/json-patch';
+import { ObservableStore, StoreSnapshot } from '../common/store';
+
+export interface StoreOptions {
+    /**
+     * Keep the state across restarts in the global or workspace state of the plugin.
+     */
+    persist?: 'global' | 'workspace';
+}
+
+const persistenceKeyPrefix = 'codearts.store.';
+
+/**
+ * Stores owned by the plugin and the pages using them, each change of a store is sent as a patch to its pages.
+ */
+export class SharedStores {
+    private readonly stores: Map<string, { store: ObservableStore; pages: Set<string>; dispose(): void }> = new Map();
+
+    /**
+     * @param context context of the plugin, holds the persisted stores
+     * @param notifyPage send a patch of a store to a page that uses it
+     * @param reportError report a listener of a store that failed
+     */
+    constructor(
+        private readonly context: cloudide.ExtensionContext,
+        private readonly notifyPage: (
+            instanceId: string,
+            name: string,
+            patch: JsonPatchOperation[],
+            version: number
+        ) => void,
+        private readonly reportError: (message: string) => void
+    ) {}
+
+    create<T>(name: string, initial: T, options: StoreOptions = {}): ObservableStore<T> {
+        if (this.stores.has(name)) {
+            throw new Error(`store ${name} already exists`);
+        }
+        let memento: cloudide.Memento | undefined;
+        if (options.persist === 'global') {
+            memento = this.context.globalState;
+        } else if (options.persist === 'workspace') {
+            memento = this.context.workspaceState;
+        }
+        const state = memento ? memento.get<T>(`${persistenceKeyPrefix}${name}`, initial) : initial;
+        const store = new ObservableStore<T>(name, { state, version: 0 }, this.reportError);
+        const pages: Set<string> = new Set();
+        const listener = store.onDidChange((event) => {
+            memento?.update(`${persistenceKeyPrefix}${name}`, event.state);
+            pages.forEach((instanceId) => this.notifyPage(instanceId, name, event.patch, event.version));
+        });
+        this.stores.set(name, {
+            store,
+            pages,
+            dispose: () => {
+                listener.dispose();
+                this.stores.delete(name);
+            }
+        });
+        return store;
+    }
+
+    get<T>(name: string): ObservableStore<T> | undefined {
+        return this.stores.get(name)?.store;
+    }
+
+    /**
+     * Stop sending the changes of the store to pages, the store is no longer shared.
+     */
+    delete(name: string): void {
+        this.stores.get(name)?.dispose();
+    }
+
+    /**
+     * Send the changes of the store to the page from now on.
+     * @returns the state the changes apply to
+     */
+    subscribePage(name: string, instanceId: string): StoreSnapshot {
+        const entry = this.getEntry(name);
+        entry.pages.add(instanceId);
+        return entry.store.getSnapshot();
+    }
+
+    unsubscribePage(name: string, instanceId: string): void {
+        this.stores.get(name)?.pages.delete(instanceId);
+    }
+
+    /**
+     * Stop sending changes to a page that is disposed or reloaded.
+     */
+    disposeOwner(instanceId: string): void {
+        this.stores.forEach((entry) => entry.pages.delete(instanceId));
+    }
+
+    getSnapshot(name: string): StoreSnapshot {
+        return this.getEntry(name).store.getSnapshot();
+    }
+
+    /**
+     * Apply a change made by a page to the version of the store the page had.
+     * @param baseVersion version of the store the patch was made against
+     * @returns version of the store after the change, undefined if the store changed since baseVersion,
+     * the page has to get a snapshot and make the change again
+     */
+    applyPatch(name: string, patch: JsonPatchOperation[], baseVersion: number): number | undefined {
+        const store = this.getEntry(name).store;
+        if (baseVersion !== store.version) {
+            return undefined;
+        }
+        store.applyPatch(patch);
+        return store.version;
+    }
+
+    private getEntry(name: string) {
+        const entry = this.stores.get(name);
+        if (!entry) {
+            throw new Error(`store ${name} does not exist, create it with Plugin.createStore`);
+        }
+        return entry;
+    }
+}
@@ -0,0 +1,188 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as fs from 'fs';
+import * as ejs from 'ejs';
+import * as pug from 'pug';
+
+/**
+ * Built-in variables passed to templates.
+ */
+export interface TemplateData {
+    l10n: any;
+    extData: any;
+
+    /**
+     * Nonce of the page, inline scripts of the template must carry it, e.g. <script nonce="<%= nonce %>">.
+     */
+    nonce: string;
+}
+
+/**
+ * Render function of a compiled template.
+ */
+export interface CompiledTemplate {
+    (data: TemplateData): string;
+
+    /**
+     * Absolute paths of the files included by the template, e.g. partials, known after compiling or rendering.
+     * Hot reload watches them and the compiled template is compiled again when one of them changes.
+     */
+    dependencies?: string[];
+}
+
+/**
+ * Template engine used to render local pages, registered with Plugin.registerTemplateEngine.
+ */
+export interface TemplateEngine {
+    /**
+     * Compile the template, the returned function is cached until the template file or one of its dependencies changes.
+     * Errors should carry the line of the template in a 'line' property if known.
+     * @param template content of the template file
+     * @param filename path of the template file
+     */
+    compile(template: string, filename: string): CompiledTemplate;
+}
+
+const plainHtml: TemplateEngine = {
+    compile: (template: string) => () => template
+};
+
+const ejsEngine: TemplateEngine = {
+    compile: (template: string, filename: string) => {
+        // ejs reads the included files each time the template is rendered
+        const dependencies: string[] = [];
+        const render: CompiledTemplate = ejs.compile(template, {
+            filename,
+            includer: (originalPath, parsedPath) => {
+                if (!parsedPath) {
+                    throw new Error(`Could not find the include file "${originalPath}"`);
+                }
+                if (!dependencies.includes(parsedPath)) {
+                    dependencies.push(parsedPath);
+                }
+                return { filename: parsedPath };
+            }
+        }) as (data: TemplateData) => string;
+        render.dependencies = dependencies;
+        return render;
+    }
+};
+
+const pugEngine: TemplateEngine = {
+    compile: (template: string, filename: string) => pug.compile(template, { filename })
+};
+
+/**
+ * Error thrown when a template fails to compile or render.
+ */
+export class TemplateError extends Error {
+    constructor(readonly filename: string, readonly line: number | undefined, readonly cause: any) {
+        super(`${filename}${line !== undefined ? `:${line}` : ''}: ${cause?.message || cause}`);
+        this.name = 'TemplateError';
+    }
+}
+
+function getErrorLine(error: any): number | undefined {
+    if (typeof error?.line === 'number') {
+        return error.line;
+    }
+    if (typeof error?.lineNumber === 'number') {
+        return error.lineNumber;
+    }
+    // ejs reports the line in the first line of the message, e.g. 'index.html:3'
+    const match = /^[^\n]*:(\d+)\n/.exec(error?.message || '');
+    return match ? Number(match[1]) : undefined;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Render the page displayed in place of a template that failed to render.
+ */
+export function renderTemplateErrorPage(error: TemplateError): string {
+    const location = error.line !== undefined ? `${error.filename}, line ${error.line}` : error.filename;
+    return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+            <title>Template error</title>
+        </head>
+        <body style="font-family: monospace; padding: 16px;">
+            <h3>Failed to render ${escapeHtml(location)}</h3>
+            <pre style="white-space: pre-wrap;">${escapeHtml(String(error.cause?.message || error.cause))}</pre>
+        </body>
+        </html>`;
+}
+
+interface CachedTemplate {
+    engine: TemplateEngine;
+    mtimeMs: number;
+    // modification times of the dependencies when the template was last rendered
+    dependencyMtimes: number[];
+    render: CompiledTemplate;
+}
+
+function modificationTimes(files: string[]): number[] {
+    return files.map((file) => (fs.existsSync(file) ? fs.statSync(file).mtimeMs : -1));
+}
+
+function isStale(cached: CachedTemplate): boolean {
+    const dependencyMtimes = modificationTimes(cached.render.dependencies || []);
+    return dependencyMtimes.some((mtimeMs, index) => mtimeMs !== cached.dependencyMtimes[index]);
+}
+
+/**
+ * Template engines by name, with the compiled templates cached per file until the modification time of the file
+ * or of one of its dependencies changes.
+ */
+export class TemplateEngineRegistry {
+    private readonly engines: Map<string, TemplateEngine> = new Map([
+        ['ejs', ejsEngine],
+        ['pug', pugEngine]
+    ]);
+    private readonly compiledTemplates: Map<string, CachedTemplate> = new Map();
+
+    register(name: string, engine: TemplateEngine): void {
+        this.engines.set(name, engine);
+    }
+
+    /**
+     * Render the template file, the file is returned as is if engineName is not defined.
+     * @throws TemplateError if the engine is not registered or the template fails to compile or render
+     */
+    render(engineName: string | undefined, filename: string, data: TemplateData): string {
+        const engine = engineName ? this.engines.get(engineName) : plainHtml;
+        if (!engine) {
+            throw new TemplateError(filename, undefined, new Error(`template engine not registered: ${engineName}`));
+        }
+        try {
+            const mtimeMs = fs.statSync(filename).mtimeMs;
+            let compiled = this.compiledTemplates.get(filename);
+            if (!compiled || compiled.engine !== engine || compiled.mtimeMs !== mtimeMs || isStale(compiled)) {
+                const render = engine.compile(fs.readFileSync(filename, 'utf8'), filename);
+                compiled = { engine, mtimeMs, dependencyMtimes: [], render };
+                this.compiledTemplates.set(filename, compiled);
+            }
+            const html = compiled.render(data);
+            compiled.dependencyMtimes = modificationTimes(compiled.render.dependencies || []);
+            return html;
+        } catch (e) {
+            throw new TemplateError(filename, getErrorLine(e), e);
+        }
+    }
+
+    /**
+     * Return the files included by the template the last time it was compiled or rendered, e.g. partials.
+     * @param filename path of the template file
+     */
+    dependencies(filename: string): string[] {
+        return [...(this.compiledTemplates.get(filename)?.render.dependencies || [])];
+    }
+}
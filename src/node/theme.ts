@@ -0,0 +1,43 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import * as cloudide from '@codearts/plugin';
+import * as path from 'path';
+import { ThemeKind } from '../common/plugin-common';
+
+// values of ColorThemeKind
+const themeKinds: { [kind: number]: ThemeKind } = {
+    1: 'light',
+    2: 'dark',
+    3: 'high-contrast',
+    4: 'high-contrast-light'
+};
+
+/**
+ * Return the kind of the active color theme, 'light' if the IDE does not tell.
+ */
+export function getThemeKind(): ThemeKind {
+    return themeKinds[cloudide.window.activeColorTheme?.kind] || 'light';
+}
+
+/**
+ * Resolve the icon of a webview against the plugin directory, an icon pair keeps both icons so that the IDE
+ * shows the one matching the theme.
+ */
+export function resolveIconPath(
+    extensionPath: string,
+    iconPath: { light: string; dark: string } | string | undefined
+): cloudide.Uri | { light: cloudide.Uri; dark: cloudide.Uri } | undefined {
+    if (!iconPath) {
+        return undefined;
+    }
+    if (typeof iconPath === 'object') {
+        return {
+            light: cloudide.Uri.file(path.join(extensionPath, iconPath.light)),
+            dark: cloudide.Uri.file(path.join(extensionPath, iconPath.dark))
+        };
+    }
+    return cloudide.Uri.file(path.join(extensionPath, iconPath));
+}
@@ -0,0 +1,109 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin } from './test-setup';
+
+describe('API permissions', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('rejects CodeArts API calls not permitted to the view type', async () => {
+        plugin.createWebviewPanel({
+            viewType: 'restricted',
+            title: 'Restricted',
+            viewUrl: 'local:resources/page/index.html',
+            apiPermissions: ['window.*'],
+            sensitiveApis: ['window.showErrorMessage']
+        });
+        const page = await host.openPage('restricted');
+        await page.pluginPage.call('codearts.window.showInformationMessage', 'allowed');
+        await assert.rejects(page.pluginPage.call('codearts.commands.executeCommand', 'workbench.action.quit'), {
+            name: 'ApiPermissionError',
+            code: 'PERMISSION_DENIED',
+            api: 'commands.executeCommand'
+        });
+        assert.deepStrictEqual(host.cloudide.getExecutedCommands(), []);
+        host.cloudide.messageResponse = 'Allow';
+        await page.pluginPage.call('codearts.window.showErrorMessage', 'first');
+        await page.pluginPage.call('codearts.window.showErrorMessage', 'second');
+        // the user is asked only once per session
+        assert.deepStrictEqual(
+            host.cloudide.messages.map((message) => message.message),
+            [
+                'allowed',
+                '"Restricted" is requesting to call window.showErrorMessage. Allow it for this session?',
+                'first',
+                'second'
+            ]
+        );
+
+        // pages cannot create webviews unless permitted, and created webviews get no more than their creator
+        await assert.rejects(
+            page.pluginPage.createWebviewPanel({
+                viewType: 'escaped',
+                title: 'Escaped',
+                viewUrl: 'local:resources/page/index.html',
+                apiPermissions: ['*']
+            }),
+            { code: 'PERMISSION_DENIED', api: 'plugin.createWebviewPanel' }
+        );
+        plugin.createWebviewPanel({
+            viewType: 'creator',
+            title: 'Creator',
+            viewUrl: 'local:resources/page/index.html',
+            apiPermissions: ['window.showInformationMessage', 'plugin.createWebviewPanel']
+        });
+        const creator = await host.openPage('creator');
+        assert.strictEqual(
+            await creator.pluginPage.createWebviewPanel({
+                viewType: 'created',
+                title: 'Created',
+                viewUrl: 'local:resources/page/index.html',
+                apiPermissions: ['*']
+            }),
+            true
+        );
+        const created = await host.openPage('created');
+        await created.pluginPage.call('codearts.window.showInformationMessage', 'inherited');
+        await assert.rejects(created.pluginPage.call('codearts.commands.executeCommand', 'workbench.action.quit'), {
+            code: 'PERMISSION_DENIED'
+        });
+
+        // options cannot grant more than package.json declares for the view type
+        plugin.createWebviewPanel({
+            viewType: 'declared',
+            title: 'Declared',
+            viewUrl: 'local:resources/page/index.html',
+            apiPermissions: ['*']
+        });
+        const declared = await host.openPage('declared');
+        await declared.pluginPage.call('codearts.window.showInformationMessage', 'declared');
+        await assert.rejects(declared.pluginPage.call('codearts.window.showWarningMessage', 'undeclared'), {
+            code: 'PERMISSION_DENIED'
+        });
+        assert.deepStrictEqual(host.cloudide.getExecutedCommands(), []);
+    });
+});
@@ -0,0 +1,61 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import { CancellationTokenSource } from '../common/cancellation';
+import type { Plugin } from '../node/plugin-api';
+import type { TestBackend } from './fixtures/test-backend';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('cancellation', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('times out calls and cancels the remote tokens', async () => {
+        plugin.createWebviewPanel({
+            viewType: 'unloaded',
+            title: 'Unloaded',
+            viewUrl: 'local:resources/page/index.html'
+        });
+        // the page of 'unloaded' is never initialized
+        await assert.rejects(plugin.callWithOptions('unloaded::test.frontend.echo', { timeout: 10 }), {
+            name: 'TimeoutError'
+        });
+
+        const page = await host.openPage(viewType);
+        const source = new CancellationTokenSource();
+        await assert.rejects(
+            page.pluginPage.callWithOptions('test.backend.waitForCancellation', { timeout: 10 }, source.token),
+            { name: 'TimeoutError' }
+        );
+        const { TestBackend } = host.require(require.resolve('./fixtures/test-backend'));
+        const backend = plugin.getBackend<TestBackend>(TestBackend);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        assert.strictEqual(backend?.cancelledCalls, 1);
+        // the tokens are released once the call is replied, late cancellations are dropped
+        await page.pluginPage.call('plugin.cancelCall', 'replied-call');
+        assert.strictEqual(plugin.remoteCancellation.executingCalls, 0);
+    });
+});
@@ -0,0 +1,98 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin } from './test-setup';
+
+describe('Content-Security-Policy', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('renders a Content-Security-Policy with script nonces', () => {
+        plugin.createWebviewPanel({
+            viewType: 'secured',
+            title: 'Secured',
+            viewUrl: 'local:resources/page/index.html',
+            contentSecurityPolicy: {
+                connectSrc: ['https://api.example.com'],
+                scriptSrc: ['https://cdn.example.com'],
+                frameSrc: ['https://frame.example.com'],
+                mediaSrc: ['https://media.example.com'],
+                workerSrc: ['blob:']
+            }
+        });
+        const html = host.cloudide.findWebview('secured')?.html || '';
+        const policy = /<meta http-equiv="Content-Security-Policy" content="([^"]*)">/.exec(html)?.[1] || '';
+        const nonce = /'nonce-(\w+)'/.exec(policy)?.[1];
+        assert.ok(nonce);
+        assert.ok(policy.indexOf("default-src 'none'") >= 0);
+        assert.ok(
+            policy.indexOf(`script-src 'nonce-${nonce}' 'strict-dynamic' theia-resource: https://cdn.example.com`) >= 0
+        );
+        assert.ok(policy.indexOf('connect-src theia-resource: https://api.example.com') >= 0);
+        assert.ok(policy.indexOf('frame-src theia-resource: https://frame.example.com') >= 0);
+        assert.ok(policy.indexOf('media-src theia-resource: https://media.example.com') >= 0);
+        assert.ok(policy.indexOf('worker-src theia-resource: blob:') >= 0);
+        // both the injected bootstrap script and the script of the page carry the nonce
+        assert.strictEqual(html.split('<script').length - 1, 2);
+        assert.strictEqual(html.split(`nonce="${nonce}"`).length - 1, 2);
+
+        // templates put the nonce on their inline scripts, scripts rendered from data get none
+        fs.writeFileSync(
+            path.join(extensionPath, 'resources', 'page', 'secured.ejs'),
+            `<html><head>
+                <script nonce="<%= nonce %>">window.ready = true;</script>
+                <link rel="modulepreload" href="chunk.js">
+                <link rel="modulepreload" href="https://cdn.example.com/chunk.js">
+            </head><body><%- extData.banner %></body></html>`
+        );
+        plugin.createWebviewPanel({
+            viewType: 'templatedSecured',
+            title: 'Templated',
+            viewUrl: 'local:resources/page/secured.ejs',
+            templateEngine: 'ejs',
+            extData: { banner: '<script>alert(1)</script>' }
+        });
+        const templated = host.cloudide.findWebview('templatedSecured')?.html || '';
+        const templatedNonce = /'nonce-(\w+)'/.exec(templated)?.[1];
+        assert.ok(templated.indexOf(`<script nonce="${templatedNonce}">window.ready = true;</script>`) >= 0);
+        assert.ok(templated.indexOf('<script>alert(1)</script>') >= 0);
+        const chunk = `theia-resource:${path.join(extensionPath, 'resources', 'page', 'chunk.js')}`;
+        assert.ok(templated.indexOf(`<link rel="modulepreload" href="${chunk}" nonce="${templatedNonce}">`) >= 0);
+        assert.ok(templated.indexOf('<link rel="modulepreload" href="https://cdn.example.com/chunk.js">') >= 0);
+
+        // pages with inline event handlers opt out of the nonce
+        plugin.createWebviewPanel({
+            viewType: 'inline',
+            title: 'Inline',
+            viewUrl: 'local:resources/page/index.html',
+            contentSecurityPolicy: { allowInlineScripts: true }
+        });
+        const inline = host.cloudide.findWebview('inline')?.html || '';
+        assert.ok(inline.indexOf("script-src theia-resource: 'unsafe-inline';") >= 0);
+        assert.ok(inline.indexOf("'nonce-") < 0);
+    });
+});
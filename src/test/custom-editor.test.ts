@@ -0,0 +1,96 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('custom editors', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('keeps the document of a custom editor page in sync with the text document', async () => {
+        plugin.registerCustomEditor('configEditor', { viewUrl: 'local:resources/page/index.html' });
+        const document = host.cloudide.createTextDocument('/project/settings.json', '{"a": 0}', 'json');
+        await host.cloudide.openCustomEditor('configEditor', document);
+        // changes made while the page loads are sent once it is initialized, the page drops them if its snapshot has them
+        document.edit([
+            { range: new host.cloudide.Range(document.positionAt(6), document.positionAt(7)), newText: '1' }
+        ]);
+        await document.save();
+        const page = await host.openPage(plugin.getInstances('configEditor')[0]);
+        const model = await page.pluginPage.getCustomDocument();
+        assert.strictEqual(model.getText(), '{"a": 1}');
+        assert.strictEqual(model.languageId, 'json');
+
+        const nextChange = () =>
+            new Promise<any>((resolve) => {
+                const listener = model.onDidChange((event) => {
+                    listener.dispose();
+                    resolve(event);
+                });
+            });
+        let change = nextChange();
+        assert.strictEqual(await model.applyEdit({ offset: 6, length: 1, text: '2' }), true);
+        assert.strictEqual((await change).isDirty, true);
+        assert.strictEqual(model.getText(), '{"a": 2}');
+        assert.strictEqual(document.getText(), '{"a": 2}');
+
+        // edits made outside the page, e.g. undo in the IDE
+        change = nextChange();
+        document.edit(
+            [{ range: new host.cloudide.Range(document.positionAt(6), document.positionAt(7)), newText: '1' }],
+            1
+        );
+        assert.strictEqual((await change).reason, 'undo');
+        assert.strictEqual(model.getText(), '{"a": 1}');
+
+        change = nextChange();
+        await model.save();
+        assert.deepStrictEqual(await change, { contentChanges: [], version: 4, isDirty: false });
+        assert.strictEqual(model.isDirty, false);
+
+        await model.redo();
+        assert.strictEqual(host.cloudide.getExecutedCommands().pop()?.id, 'redo');
+
+        // revert reloads the file of this document instead of reverting the active editor, without saving it
+        await model.setText('{}');
+        change = nextChange();
+        await model.revert();
+        assert.strictEqual((await change).isDirty, false);
+        assert.strictEqual(document.getText(), '{"a": 1}');
+        assert.strictEqual(model.getText(), '{"a": 1}');
+        assert.deepStrictEqual(host.cloudide.getExecutedCommands().pop(), {
+            id: 'workbench.action.files.revert',
+            args: [document.uri]
+        });
+
+        // other pages cannot act on the document by passing the id of the editor page
+        const other = await host.openPage(viewType);
+        await assert.rejects(
+            other.pluginPage.call('plugin.customEditor.getDocument', plugin.getInstances('configEditor')[0])
+        );
+    });
+});
@@ -0,0 +1,63 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost, FakeUri } from '../testing/plugin-testing';
+import { EventType } from '../common/plugin-common';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('event filters', () => {
+    let extensionPath: string;
+    let host: TestHost;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('filters and debounces events on the backend', async () => {
+        const page = await host.openPage(viewType);
+        const received: string[] = [];
+        const unfiltered: string[] = [];
+        await page.pluginPage.subscribeEvent(
+            EventType.WORKSPACE_ONDIDOPENTEXTDOCUMENT,
+            (type, document) => received.push(document.fileName),
+            { filter: { uri: '**/*.ts', languageId: 'typescript' }, rateLimit: { policy: 'debounce', wait: 20 } }
+        );
+        await page.pluginPage.subscribeEvent(EventType.WORKSPACE_ONDIDOPENTEXTDOCUMENT, (type, document) =>
+            unfiltered.push(document.fileName)
+        );
+        const openDocument = (fileName: string, languageId: string) =>
+            host.cloudide.fireEvent(EventType.WORKSPACE_ONDIDOPENTEXTDOCUMENT, {
+                uri: FakeUri.file(fileName),
+                fileName,
+                languageId,
+                version: 1,
+                isDirty: false,
+                isUntitled: false,
+                isClosed: false,
+                lineCount: 1,
+                eol: 1
+            });
+        openDocument('/workspace/src/a.ts', 'typescript');
+        openDocument('/workspace/src/b.js', 'javascript');
+        openDocument('/workspace/src/c.ts', 'typescript');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        assert.deepStrictEqual(received, ['/workspace/src/c.ts']);
+        assert.deepStrictEqual(unfiltered, ['/workspace/src/a.ts', '/workspace/src/b.js', '/workspace/src/c.ts']);
+    });
+});
@@ -0,0 +1,154 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost, FakePosition, FakeRange, FakeUri } from '../testing/plugin-testing';
+import { EventType } from '../common/plugin-common';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('event serializers', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('serializes IDE events to plain data and uses registered serializers', async () => {
+        const page = await host.openPage(viewType);
+        const received: { [eventType: string]: any } = {};
+        const eventTypes = [
+            EventType.WORKSPACE_ONDIDOPENTEXTDOCUMENT,
+            EventType.WINDOW_ONDIDCHANGEACTIVETEXTEDITOR,
+            EventType.DEBUG_ONDIDSTARTDEBUGSESSION,
+            EventType.LANGUAGES_ONDIDCHANGEDIAGNOSTICS,
+            EventType.WINDOW_ONDIDCHANGEWINDOWSTATE
+        ];
+        for (const eventType of eventTypes) {
+            await page.pluginPage.subscribeEvent(eventType, (type, event) => (received[type] = event));
+        }
+        plugin.registerEventSerializer(EventType.WINDOW_ONDIDCHANGEWINDOWSTATE, (state) => ({
+            focused: state.focused,
+            source: 'custom'
+        }));
+
+        const document = host.cloudide.createTextDocument('/project/a.ts', 'const a = 1;\nconst b = 2;', 'typescript');
+        const selection = {
+            start: new FakePosition(0, 6),
+            end: new FakePosition(0, 7),
+            anchor: new FakePosition(0, 6),
+            active: new FakePosition(0, 7),
+            isReversed: false
+        };
+        host.cloudide.fireEvent(EventType.WORKSPACE_ONDIDOPENTEXTDOCUMENT, document);
+        host.cloudide.fireEvent(EventType.WINDOW_ONDIDCHANGEACTIVETEXTEDITOR, {
+            document,
+            selection,
+            selections: [selection],
+            visibleRanges: [new FakeRange(new FakePosition(0, 0), new FakePosition(1, 12))],
+            options: { tabSize: 4, insertSpaces: true, cursorStyle: 1, lineNumbers: 1 },
+            viewColumn: 1,
+            edit: () => Promise.resolve(true)
+        });
+        host.cloudide.fireEvent(EventType.DEBUG_ONDIDSTARTDEBUGSESSION, {
+            id: 'session-1',
+            type: 'node',
+            name: 'Launch',
+            workspaceFolder: { uri: FakeUri.file('/project'), name: 'project', index: 0 },
+            configuration: { type: 'node', request: 'launch', onExit: () => undefined },
+            customRequest: () => Promise.resolve()
+        });
+        host.cloudide.fireEvent(EventType.LANGUAGES_ONDIDCHANGEDIAGNOSTICS, {
+            uris: [FakeUri.parse('git://host/project/a.ts?ref=main#L1')]
+        });
+        host.cloudide.fireEvent(EventType.WINDOW_ONDIDCHANGEWINDOWSTATE, { focused: true });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        const documentDto = {
+            uri: {
+                scheme: 'file',
+                authority: '',
+                path: '/project/a.ts',
+                query: '',
+                fragment: '',
+                fsPath: '/project/a.ts',
+                external: 'file:///project/a.ts'
+            },
+            fileName: '/project/a.ts',
+            languageId: 'typescript',
+            version: 1,
+            isDirty: false,
+            isUntitled: false,
+            isClosed: false,
+            lineCount: 2,
+            eol: '\n'
+        };
+        const selectionDto = {
+            start: { line: 0, character: 6 },
+            end: { line: 0, character: 7 },
+            anchor: { line: 0, character: 6 },
+            active: { line: 0, character: 7 },
+            isReversed: false
+        };
+        assert.deepStrictEqual(received[EventType.WORKSPACE_ONDIDOPENTEXTDOCUMENT], documentDto);
+        assert.deepStrictEqual(received[EventType.WINDOW_ONDIDCHANGEACTIVETEXTEDITOR], {
+            document: documentDto,
+            selection: selectionDto,
+            selections: [selectionDto],
+            visibleRanges: [{ start: { line: 0, character: 0 }, end: { line: 1, character: 12 } }],
+            options: { tabSize: 4, insertSpaces: true, cursorStyle: 1, lineNumbers: 1 },
+            viewColumn: 1
+        });
+        assert.deepStrictEqual(received[EventType.DEBUG_ONDIDSTARTDEBUGSESSION], {
+            id: 'session-1',
+            type: 'node',
+            name: 'Launch',
+            workspaceFolder: {
+                uri: {
+                    scheme: 'file',
+                    authority: '',
+                    path: '/project',
+                    query: '',
+                    fragment: '',
+                    fsPath: '/project',
+                    external: 'file:///project'
+                },
+                name: 'project',
+                index: 0
+            },
+            configuration: { type: 'node', request: 'launch' }
+        });
+        assert.deepStrictEqual(received[EventType.LANGUAGES_ONDIDCHANGEDIAGNOSTICS], {
+            uris: [
+                {
+                    scheme: 'git',
+                    authority: 'host',
+                    path: '/project/a.ts',
+                    query: 'ref=main',
+                    fragment: 'L1',
+                    fsPath: '/project/a.ts',
+                    external: 'git://host/project/a.ts?ref=main#L1'
+                }
+            ]
+        });
+        assert.deepStrictEqual(received[EventType.WINDOW_ONDIDCHANGEWINDOWSTATE], { focused: true, source: 'custom' });
+    });
+});
@@ -0,0 +1,111 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import { ExtensionContext } from '@codearts/plugin';
+import { exposable, expose } from '@cloudide/messaging';
+import { AbstractBackend, Plugin } from '../../node/plugin-api';
+import { inject, injectable } from '../../common/injection';
+import { implementsContract } from '../../common/remote-api';
+import { CancellationToken } from '../../common/cancellation';
+import { TestBackendApi } from './test-contracts';
+
+@exposable
+@implementsContract<TestBackendApi>()
+export class TestBackend extends AbstractBackend {
+    public cancelledCalls = 0;
+    public closedStreams = 0;
+    public reloadedPages: { instanceId: string; viewType: string }[] = [];
+    public initialized = false;
+
+    async init(): Promise<void> {
+        this.initialized = true;
+    }
+
+    run(): void {
+        // do nothing
+    }
+
+    stop(): void {
+        // do nothing
+    }
+
+    onPageReload(instanceId: string, viewType: string): void {
+        this.reloadedPages.push({ instanceId, viewType });
+    }
+
+    @expose('test.backend.echo')
+    public echo(value: string): string {
+        return `backend: ${value}`;
+    }
+
+    @expose('test.backend.waitForCancellation')
+    public waitForCancellation(token: CancellationToken): Promise<void> {
+        return new Promise((resolve) => {
+            token.onCancellationRequested(() => {
+                this.cancelledCalls++;
+                resolve();
+            });
+        });
+    }
+
+    @expose('test.backend.count')
+    public async *count(onProgress: (count: number) => void): AsyncGenerator<number> {
+        try {
+            for (let i = 1; ; i++) {
+                onProgress(i);
+                yield i;
+            }
+        } finally {
+            this.closedStreams++;
+        }
+    }
+}
+
+@injectable()
+export class CounterService {
+    private count = 0;
+
+    next(): number {
+        return ++this.count;
+    }
+}
+
+@injectable({ scope: 'page' })
+export class PageSessionService {
+    constructor(@inject(CounterService) public readonly counter: CounterService) {}
+
+    readonly id = this.counter.next();
+}
+
+@exposable
+export class InjectedBackend extends AbstractBackend {
+    @inject(TestBackend) public testBackend!: TestBackend;
+    public initializedAfterTestBackend = false;
+
+    constructor(
+        plugin: Plugin,
+        context: ExtensionContext,
+        @inject(CounterService) public readonly counter: CounterService
+    ) {
+        super(plugin, context);
+    }
+
+    async init(): Promise<void> {
+        this.initializedAfterTestBackend = this.testBackend.initialized;
+    }
+
+    run(): void {
+        // do nothing
+    }
+
+    stop(): void {
+        // do nothing
+    }
+
+    @expose('test.injected.next')
+    public next(): number {
+        return this.counter.next();
+    }
+}
@@ -0,0 +1,16 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+export const testBackendNamespace = 'test.backend';
+export const testFrontendNamespace = 'test.frontend';
+
+export interface TestBackendApi {
+    echo(value: string): string;
+    count(onProgress: (count: number) => void): AsyncIterable<number>;
+}
+
+export interface TestFrontendApi {
+    echo(value: string): string;
+}
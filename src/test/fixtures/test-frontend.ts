@@ -0,0 +1,105 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import { exposable, expose } from '@cloudide/messaging';
+import { AbstractFrontend } from '../../browser/plugin-api';
+import { implementsContract } from '../../common/remote-api';
+import { LogLevel } from '../../common/plugin-common';
+import { dependsOn } from '../../common/lifecycle';
+import { inject } from '../../common/injection';
+import { TestFrontendApi } from './test-contracts';
+
+// lifecycle calls of the frontends of the page, in call order
+export const lifecycleLog: string[] = [];
+
+@exposable
+@implementsContract<TestFrontendApi>()
+export class TestFrontend extends AbstractFrontend {
+    protected readonly frontendName = 'TestFrontend';
+
+    async init(): Promise<void> {
+        lifecycleLog.push('TestFrontend.init');
+    }
+
+    run(): void {
+        lifecycleLog.push('TestFrontend.run');
+    }
+
+    stop(): void {
+        lifecycleLog.push('TestFrontend.stop');
+    }
+
+    @expose('test.frontend.echo')
+    public echo(value: string): string {
+        return `frontend: ${value}`;
+    }
+
+    @expose('test.frontend.log')
+    public logMessage(message: string): void {
+        this.log(LogLevel.INFO, message);
+    }
+}
+
+export class FailingFrontend extends AbstractFrontend {
+    async init(): Promise<void> {
+        throw new Error('init failed');
+    }
+
+    run(): void {
+        lifecycleLog.push('FailingFrontend.run');
+    }
+
+    stop(): void {
+        lifecycleLog.push('FailingFrontend.stop');
+    }
+}
+
+@dependsOn(FailingFrontend)
+export class DependentFrontend extends AbstractFrontend {
+    async init(): Promise<void> {
+        lifecycleLog.push('DependentFrontend.init');
+    }
+
+    run(): void {
+        lifecycleLog.push('DependentFrontend.run');
+    }
+
+    stop(): void {
+        lifecycleLog.push('DependentFrontend.stop');
+    }
+}
+
+@exposable
+@dependsOn(TestFrontend)
+export class OrderedFrontend extends AbstractFrontend {
+    async init(): Promise<void> {
+        lifecycleLog.push('OrderedFrontend.init');
+    }
+
+    run(): void {
+        lifecycleLog.push('OrderedFrontend.run');
+    }
+
+    stop(): void {
+        lifecycleLog.push('OrderedFrontend.stop');
+    }
+}
+
+@exposable
+export class InjectedFrontend extends AbstractFrontend {
+    @inject(TestFrontend) public testFrontend!: TestFrontend;
+
+    async init(): Promise<void> {
+        lifecycleLog.push('InjectedFrontend.init');
+    }
+
+    run(): void {
+        lifecycleLog.push('InjectedFrontend.run');
+    }
+
+    stop(): void {
+        lifecycleLog.push('InjectedFrontend.stop');
+    }
+}
@@ -0,0 +1,96 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import type { TestBackend } from './fixtures/test-backend';
+import { createTestExtension, createTestPlugin } from './test-setup';
+
+describe('hot reload', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('reloads the page when its files change and keeps the page state', async () => {
+        fs.writeFileSync(
+            path.join(extensionPath, 'resources', 'page', 'reload.html'),
+            '<html><head><script src="reload.js"></script></head><body></body></html>'
+        );
+        fs.writeFileSync(path.join(extensionPath, 'resources', 'page', 'reload.js'), '');
+        plugin.createWebviewPanel({
+            viewType: 'reloadable',
+            title: 'Reloadable',
+            viewUrl: 'local:resources/page/reload.html',
+            hotReload: true
+        });
+        const webview = host.cloudide.findWebview('reloadable');
+        const page = await host.openPage('reloadable');
+        page.pluginPage.state = { selected: 3 };
+        const html = webview?.html;
+
+        fs.writeFileSync(path.join(extensionPath, 'resources', 'page', 'reload.js'), 'console.log("changed");');
+        for (let i = 0; i < 100 && webview?.html === html; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        assert.notStrictEqual(webview?.html, html);
+        assert.ok(page.window.unloaded);
+        const reloadedPage = await host.openPage('reloadable');
+        assert.deepStrictEqual(reloadedPage.pluginPage.state, { selected: 3 });
+        const { TestBackend } = host.require(require.resolve('./fixtures/test-backend'));
+        const backend = plugin.getBackend<TestBackend>(TestBackend);
+        assert.deepStrictEqual(backend?.reloadedPages, [{ instanceId: 'reloadable', viewType: 'reloadable' }]);
+
+        // editors save through a rename, the new file is still watched
+        const tempFile = path.join(extensionPath, 'resources', 'page', 'reload.js.tmp');
+        fs.writeFileSync(tempFile, 'console.log("saved");');
+        fs.renameSync(tempFile, path.join(extensionPath, 'resources', 'page', 'reload.js'));
+        for (const content of ['', 'console.log("changed again");']) {
+            const reloadedHtml = webview?.html;
+            fs.writeFileSync(path.join(extensionPath, 'resources', 'page', 'reload.js'), content);
+            for (let i = 0; i < 100 && webview?.html === reloadedHtml; i++) {
+                await new Promise((resolve) => setTimeout(resolve, 20));
+            }
+            assert.notStrictEqual(webview?.html, reloadedHtml);
+        }
+
+        // partials included by templates are watched and compiled again
+        fs.writeFileSync(path.join(extensionPath, 'resources', 'page', 'layout.pug'), 'include header.pug\np body');
+        fs.writeFileSync(path.join(extensionPath, 'resources', 'page', 'header.pug'), 'h1 Header');
+        plugin.createWebviewPanel({
+            viewType: 'partials',
+            title: 'Partials',
+            viewUrl: 'local:resources/page/layout.pug',
+            templateEngine: 'pug',
+            hotReload: true
+        });
+        const partialsWebview = host.cloudide.findWebview('partials');
+        assert.ok((partialsWebview?.html || '').indexOf('<h1>Header</h1>') >= 0);
+        fs.writeFileSync(path.join(extensionPath, 'resources', 'page', 'header.pug'), 'h1 Changed');
+        for (let i = 0; i < 100 && (partialsWebview?.html || '').indexOf('<h1>Changed</h1>') < 0; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        assert.ok((partialsWebview?.html || '').indexOf('<h1>Changed</h1>') >= 0);
+    });
+});
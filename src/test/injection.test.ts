@@ -0,0 +1,73 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import type { InjectedBackend, PageSessionService } from './fixtures/test-backend';
+import type { InjectedFrontend } from './fixtures/test-frontend';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('injection', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('injects backends, frontends and services and initializes dependencies first', async () => {
+        host.dispose();
+        host = new TestHost({ extensionPath });
+        plugin = host.createPlugin(() => {
+            const fixtures = require('./fixtures/test-backend');
+            return [fixtures.InjectedBackend, fixtures.TestBackend];
+        });
+        plugin.createWebviewPanel({ viewType, title: 'Main', viewUrl: 'local:resources/page/index.html' });
+        const page = await host.openPage(viewType, () => {
+            const fixtures = require('./fixtures/test-frontend');
+            return [fixtures.InjectedFrontend, fixtures.TestFrontend];
+        });
+        const { InjectedBackend, TestBackend, CounterService, PageSessionService } = host.require(
+            require.resolve('./fixtures/test-backend')
+        );
+        const injectedBackend = plugin.getBackend<InjectedBackend>(InjectedBackend);
+        assert.ok(injectedBackend);
+        assert.strictEqual(injectedBackend.testBackend, plugin.getBackend(TestBackend));
+        assert.strictEqual(injectedBackend.counter, plugin.getService(CounterService));
+        assert.strictEqual(injectedBackend.initializedAfterTestBackend, true);
+        // InjectedBackend is exposable, its constructor is wrapped but still injected
+        const count = injectedBackend.counter.next();
+        assert.strictEqual(await page.pluginPage.call('test.injected.next'), count + 1);
+
+        const session = plugin.getService<PageSessionService>(PageSessionService, viewType);
+        assert.strictEqual(plugin.getService(PageSessionService, viewType), session);
+        assert.notStrictEqual(plugin.getService(PageSessionService, 'other'), session);
+        assert.strictEqual(session.counter, injectedBackend.counter);
+        assert.throws(() => plugin.getService(PageSessionService), /scoped to pages/);
+
+        const { InjectedFrontend, TestFrontend, lifecycleLog } = page.require(
+            require.resolve('./fixtures/test-frontend')
+        );
+        const injectedFrontend = page.pluginPage.getFrontend<InjectedFrontend>(InjectedFrontend);
+        assert.strictEqual(injectedFrontend?.testFrontend, page.pluginPage.getFrontend(TestFrontend));
+        assert.deepStrictEqual(lifecycleLog.slice(0, 2), ['TestFrontend.init', 'InjectedFrontend.init']);
+    });
+});
@@ -0,0 +1,83 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import { LogLevel } from '../common/plugin-common';
+import type { Plugin } from '../node/plugin-api';
+import { MemorySink } from '../node/logger';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('lifecycle', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('runs frontends in dependency order and isolates failures', async () => {
+        const sink = new MemorySink();
+        plugin.logger.addSink(sink);
+        const page = await host.openPage(viewType, () => {
+            const fixtures = require('./fixtures/test-frontend');
+            return [
+                fixtures.OrderedFrontend,
+                fixtures.DependentFrontend,
+                fixtures.FailingFrontend,
+                fixtures.TestFrontend
+            ];
+        });
+        const { lifecycleLog } = page.require(require.resolve('./fixtures/test-frontend'));
+        assert.deepStrictEqual(lifecycleLog, [
+            'TestFrontend.init',
+            'OrderedFrontend.init',
+            'TestFrontend.run',
+            'OrderedFrontend.run'
+        ]);
+        assert.strictEqual(await plugin.call(`${viewType}::test.frontend.echo`, 'alive'), 'frontend: alive');
+        const errors = sink.records.filter((record) => record.level === LogLevel.ERROR).map((record) => record.message);
+        assert.deepStrictEqual(errors, [
+            'failed to init FailingFrontend: init failed',
+            'failed to init DependentFrontend: a dependency failed to initialize'
+        ]);
+
+        page.close();
+        assert.deepStrictEqual(lifecycleLog.slice(4), ['OrderedFrontend.stop', 'TestFrontend.stop']);
+    });
+
+    it('reports errors of lifecycle listeners', async () => {
+        host.dispose();
+        host = new TestHost({ extensionPath });
+        plugin = host.createPlugin(() => [require('./fixtures/test-backend').TestBackend]);
+        const sink = new MemorySink();
+        plugin.logger.addSink(sink);
+        plugin.onDidChangeLifecycle(() => {
+            throw new Error('listener failed');
+        });
+        plugin.createWebviewPanel({ viewType, title: 'Main', viewUrl: 'local:resources/page/index.html' });
+        await host.openPage(viewType);
+        assert.ok(
+            sink.records.some(
+                (record) => record.message === 'failed to notify the running phase of TestBackend: listener failed'
+            )
+        );
+    });
+});
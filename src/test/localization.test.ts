@@ -0,0 +1,61 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('localization', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('localizes messages in page', async () => {
+        const page = await host.openPage(viewType);
+        assert.strictEqual(page.pluginPage.localize('greeting', 'page'), 'Hello page');
+    });
+
+    it('formats plural messages and switches locale at runtime', async () => {
+        const page = await host.openPage(viewType);
+        assert.strictEqual(page.pluginPage.localize('files', { count: 0 }), 'no files');
+        assert.strictEqual(page.pluginPage.localize('files', { count: 1 }), '1 file');
+        assert.strictEqual(page.pluginPage.localize('files', { count: 1200 }), '1,200 files');
+        assert.strictEqual(page.pluginPage.localize('missing'), 'missing');
+
+        // every open page is told, each with a call of its own
+        plugin.createWebviewPanel({ viewType, title: 'Second', viewUrl: 'local:resources/page/index.html' });
+        const second = await host.openPage(plugin.getInstances(viewType)[1]);
+        const localeChanged = new Promise<string>((resolve) => page.pluginPage.onDidChangeLocale(resolve));
+        const secondLocaleChanged = new Promise<string>((resolve) => second.pluginPage.onDidChangeLocale(resolve));
+        plugin.setLocale('zh-cn');
+        assert.strictEqual(await localeChanged, 'zh-cn');
+        assert.strictEqual(await secondLocaleChanged, 'zh-cn');
+        assert.strictEqual(page.pluginPage.localize('greeting', 'page'), '你好 page');
+        assert.strictEqual(page.pluginPage.localize('files', { count: 2 }), '2 个文件');
+        // falls back from zh-cn to zh, then to en
+        assert.strictEqual(page.pluginPage.localize('help'), 'Help');
+        // fallback messages are formatted with the plural rules of their own locale
+        assert.strictEqual(page.pluginPage.localize('folders', { count: 1 }), '1 folder');
+        assert.strictEqual(plugin.localize('greeting', 'plugin'), '你好 plugin');
+    });
+});
@@ -0,0 +1,87 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestHost } from '../testing/plugin-testing';
+import { LogLevel } from '../common/plugin-common';
+import type { Plugin } from '../node/plugin-api';
+import { MemorySink, RotatingFileSink } from '../node/logger';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('logger', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('logs structured records tagged with the page and frontend', async () => {
+        const sink = new MemorySink();
+        plugin.logger.addSink(sink);
+        plugin.logger.level = LogLevel.INFO;
+        plugin.createWebviewPanel({
+            viewType: 'logged',
+            title: 'Logged',
+            viewUrl: 'local:resources/page/index.html',
+            captureConsole: true
+        });
+        const page = await host.openPage('logged', () => [require('./fixtures/test-frontend').TestFrontend]);
+        await plugin.call('logged::test.frontend.log', 'from frontend');
+        page.window.console.debug('dropped');
+        page.window.console.error('boom', { code: 1 });
+        page.window.dispatchEvent({ type: 'error', message: 'uncaught', filename: 'index.js', lineno: 1, colno: 2 });
+        // the view type is added by the plugin, the page cannot pass another one
+        await page.pluginPage.log(LogLevel.WARN, 'spoofed', { viewType: viewType });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        const records = sink.records.map(({ level, message, fields }) => ({ level, message, fields }));
+        assert.deepStrictEqual(records, [
+            { level: 'INFO', message: 'from frontend', fields: { viewType: 'logged', frontend: 'TestFrontend' } },
+            { level: 'ERROR', message: 'boom {"code":1}', fields: { viewType: 'logged', source: 'console' } },
+            { level: 'ERROR', message: 'uncaught at index.js:1:2', fields: { viewType: 'logged', source: 'uncaught' } },
+            { level: 'WARN', message: 'spoofed', fields: { viewType: 'logged' } }
+        ]);
+        assert.ok(sink.lines[0].endsWith(']from frontend frontend=TestFrontend viewType=logged'));
+        // the page console still receives the messages
+        assert.strictEqual(page.window.console.messages.length, 2);
+    });
+
+    it('writes the log to rotated files', async () => {
+        const logDir = path.join(extensionPath, 'logs');
+        const sink = new RotatingFileSink(logDir, { maxSize: 20, maxFiles: 2 });
+        ['first record', 'second record', 'third record', 'fourth record'].forEach((line) => sink.write(line));
+        await sink.flush();
+        assert.deepStrictEqual(fs.readdirSync(logDir).sort(), ['plugin.1.log', 'plugin.2.log', 'plugin.log']);
+        assert.strictEqual(fs.readFileSync(path.join(logDir, 'plugin.log'), 'utf8'), 'fourth record\n');
+        assert.strictEqual(fs.readFileSync(path.join(logDir, 'plugin.1.log'), 'utf8'), 'third record\n');
+        // the oldest file is removed
+        assert.strictEqual(fs.readFileSync(path.join(logDir, 'plugin.2.log'), 'utf8'), 'second record\n');
+
+        const fileLog = plugin.logToFile({ fileName: 'test.log' });
+        plugin.log(LogLevel.INFO, 'to file');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        fileLog.dispose();
+        const logFile = path.join(host.context.logUri.fsPath, 'test.log');
+        assert.ok(fs.readFileSync(logFile, 'utf8').endsWith(']to file\n'));
+        fs.rmSync(logFile);
+    });
+});
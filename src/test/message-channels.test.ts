@@ -0,0 +1,68 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('message channels', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('routes page messages by target and publishes on channels', async () => {
+        plugin.createWebviewPanel({ viewType, title: 'Second', viewUrl: 'local:resources/page/index.html' });
+        const [firstId, secondId] = plugin.getInstances(viewType);
+        const loadFrontends = () => [require('./fixtures/test-frontend').TestFrontend];
+        const first = await host.openPage(firstId, loadFrontends);
+        const second = await host.openPage(secondId, loadFrontends);
+        assert.strictEqual(await first.pluginPage.call(`${secondId}::test.frontend.echo`, 'hi'), 'frontend: hi');
+
+        const received: [string, any, string][] = [];
+        const subscription = await second.pluginPage.subscribe('selection', (data, publisher) =>
+            received.push(['second', data, publisher])
+        );
+        const backendMessages = new Promise<any>((resolve) => plugin.subscribe('selection', resolve));
+        await first.pluginPage.publish('selection', { row: 1 });
+        assert.deepStrictEqual(await backendMessages, { row: 1 });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        assert.deepStrictEqual(received, [['second', { row: 1 }, firstId]]);
+
+        // the publisher is the page that sent the request, whatever instance id the page passes
+        const spoofed = new Promise<string>((resolve) =>
+            plugin.subscribe('spoofed', (data, publisher) => resolve(publisher))
+        );
+        await second.pluginPage.call('plugin.channel', firstId, 'publish', 'spoofed', {});
+        assert.strictEqual(await spoofed, secondId);
+
+        await subscription.dispose();
+        plugin.publish('selection', { row: 2 });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        assert.strictEqual(received.length, 1);
+
+        plugin.dispose(secondId);
+        await assert.rejects(first.pluginPage.call(`${secondId}::test.frontend.echo`, 'gone'));
+    });
+});
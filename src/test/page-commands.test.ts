@@ -0,0 +1,54 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('page commands', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('runs commands registered by a page in that page', async () => {
+        plugin.createWebviewPanel({ viewType, title: 'Second', viewUrl: 'local:resources/page/index.html' });
+        const [firstId, secondId] = plugin.getInstances(viewType);
+        const first = await host.openPage(firstId);
+        const second = await host.openPage(secondId);
+        await first.pluginPage.registerCommand('dashboard.refresh', (count: number) => `refreshed ${count}`, {
+            title: 'Dashboard: Refresh'
+        });
+        assert.strictEqual(await host.cloudide.commands.executeCommand('dashboard.refresh', 3), 'refreshed 3');
+        await assert.rejects(second.pluginPage.registerCommand('dashboard.refresh', () => 'second'));
+        // commands are registered for the page that sent the request, and only if package.json contributes them
+        await assert.rejects(second.pluginPage.call('plugin.commands', firstId, 'register', 'dashboard.refresh'));
+        await assert.rejects(first.pluginPage.registerCommand('dashboard.unknown', () => 'unknown'));
+
+        plugin.dispose(firstId);
+        assert.ok(!(await host.cloudide.commands.getCommands()).includes('dashboard.refresh'));
+        const registration = await second.pluginPage.registerCommand('dashboard.refresh', () => 'second');
+        assert.strictEqual(await host.cloudide.commands.executeCommand('dashboard.refresh'), 'second');
+        await registration.dispose();
+        assert.ok(!(await host.cloudide.commands.getCommands()).includes('dashboard.refresh'));
+    });
+});
@@ -0,0 +1,205 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import { EventType } from '../common/plugin-common';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('Plugin', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('renders the page into the webview panel', () => {
+        const panel = host.cloudide.panels[0];
+        assert.strictEqual(panel.viewType, viewType);
+        assert.ok(panel.webview.html.indexOf('acquireCloudidePluginApi') >= 0);
+    });
+
+    it('calls backend from page', async () => {
+        const page = await host.openPage(viewType, () => [require('./fixtures/test-frontend').TestFrontend]);
+        assert.strictEqual(await page.pluginPage.call('test.backend.echo', 'hello'), 'backend: hello');
+    });
+
+    it('calls page from backend', async () => {
+        await host.openPage(viewType, () => [require('./fixtures/test-frontend').TestFrontend]);
+        assert.strictEqual(await plugin.call(`${viewType}::test.frontend.echo`, 'hi'), 'frontend: hi');
+    });
+
+    it('delivers subscribed IDE events to page', async () => {
+        const page = await host.openPage(viewType);
+        const received = new Promise<any>((resolve) => {
+            page.pluginPage.subscribeEvent(EventType.WINDOW_ONDIDOPENTERMINAL, (type, event) => resolve(event));
+        });
+        await new Promise((resolve) => setImmediate(resolve));
+        host.cloudide.fireEvent(EventType.WINDOW_ONDIDOPENTERMINAL, { name: 'bash', processId: Promise.resolve(42) });
+        const event = await received;
+        assert.strictEqual(event.name, 'bash');
+        assert.strictEqual(event.processId, 42);
+    });
+
+    it('delivers IDE events only to subscribed pages', async () => {
+        plugin.createWebviewPanel({ viewType: 'second', title: 'Second', viewUrl: 'local:resources/page/index.html' });
+        const page = await host.openPage(viewType);
+        const secondPage = await host.openPage('second');
+        let resolveEvent: (event: any) => void = () => undefined;
+        const received = new Promise<any>((resolve) => (resolveEvent = resolve));
+        await page.pluginPage.subscribeEvent(EventType.WINDOW_ONDIDCHANGEWINDOWSTATE, (type, event) =>
+            resolveEvent(event)
+        );
+        const handler = () => undefined;
+        await secondPage.pluginPage.subscribeEvent(EventType.WINDOW_ONDIDCHANGEWINDOWSTATE, handler);
+        await secondPage.pluginPage.unsubscribeEvent(EventType.WINDOW_ONDIDCHANGEWINDOWSTATE, handler);
+        // unsubscribing an event type that was never subscribed must not affect other subscriptions
+        await secondPage.pluginPage.call('plugin.unsubscribeEvent', EventType.WINDOW_ONDIDOPENTERMINAL, 'second');
+        // a page cannot drop the subscriptions of another page by passing its view type
+        await secondPage.pluginPage.call('plugin.unsubscribeAllEvents', viewType);
+        host.cloudide.fireEvent(EventType.WINDOW_ONDIDCHANGEWINDOWSTATE, { focused: true });
+        assert.deepStrictEqual(await received, { focused: true });
+        await new Promise((resolve) => setImmediate(resolve));
+        assert.ok(secondPage.receivedCalls.every((call) => call.func !== 'plugin.page.onEvent'));
+        assert.ok(page.receivedCalls.some((call) => call.func === 'plugin.page.onEvent'));
+    });
+
+    it('revives the panel with its options and page state after restart', async () => {
+        plugin.createWebviewPanel({
+            viewType: 'stateful',
+            title: 'Stateful',
+            viewUrl: 'local:resources/page/index.html',
+            extData: { project: 'demo' }
+        });
+        const page = await host.openPage('stateful');
+        page.pluginPage.state = { selected: 2, project: 'demo' };
+        // options written into the state by the page are ignored
+        const persistedState = {
+            ...page.webview.state,
+            webviewOptions: { viewType: 'stateful', viewUrl: 'https://evil.example.com', apiPermissions: ['*'] }
+        };
+        host.dispose();
+
+        host = new TestHost({ extensionPath });
+        plugin = host.createPlugin(() => [require('./fixtures/test-backend').TestBackend]);
+        plugin.registerWebviewPanelSerializer(
+            {
+                viewType: 'stateful',
+                title: 'Stateful',
+                viewUrl: 'local:resources/page/index.html',
+                apiPermissions: ['env.*']
+            },
+            { resolveOptions: (options, pageState) => ({ ...options, extData: { project: pageState.project } }) }
+        );
+        await host.cloudide.revivePanel('stateful', persistedState);
+        const revivedPage = await host.openPage('stateful');
+        assert.deepStrictEqual(revivedPage.pluginPage.state, { selected: 2, project: 'demo' });
+        assert.deepStrictEqual(revivedPage.pluginPage.cloudidePluginApi.getExtData(), { project: 'demo' });
+        assert.strictEqual(await revivedPage.pluginPage.call('codearts.env.appName'), 'CodeArts');
+        await assert.rejects(revivedPage.pluginPage.call('codearts.commands.getCommands'), {
+            code: 'PERMISSION_DENIED'
+        });
+
+        // the state of another view type is rejected
+        const otherPanel = await host.cloudide.revivePanel('stateful', { viewType: 'other', pageState: {} });
+        assert.strictEqual(otherPanel.disposed, true);
+        assert.deepStrictEqual(plugin.getInstances('stateful'), ['stateful']);
+    });
+
+    it('keeps several pages of the same view type apart', async () => {
+        plugin.createWebviewPanel({ viewType, title: 'Second', viewUrl: 'local:resources/page/index.html' });
+        const instances = plugin.getInstances(viewType);
+        assert.strictEqual(instances.length, 2);
+        assert.strictEqual(instances[0], viewType);
+        const loadFrontends = () => [require('./fixtures/test-frontend').TestFrontend];
+        const first = await host.openPage(instances[0], loadFrontends);
+        const second = await host.openPage(instances[1], loadFrontends);
+        assert.strictEqual(second.pluginPage.instanceId, instances[1]);
+        assert.deepStrictEqual(await first.pluginPage.getInstances(viewType), instances);
+
+        assert.deepStrictEqual(await plugin.broadcast(`${viewType}::test.frontend.echo`, 'all'), [
+            'frontend: all',
+            'frontend: all'
+        ]);
+        plugin.dispose(instances[0]);
+        assert.deepStrictEqual(plugin.getInstances(viewType), [instances[1]]);
+        assert.strictEqual(await plugin.call(`${instances[1]}::test.frontend.echo`, 'second'), 'frontend: second');
+        assert.strictEqual(await second.pluginPage.call('test.backend.echo', 'second'), 'backend: second');
+
+        // the view type reaches an open page of the view type once its first page is closed
+        assert.strictEqual(await plugin.call(`${viewType}::test.frontend.echo`, 'any'), 'frontend: any');
+        plugin.createWebviewPanel({
+            viewType: 'dashboard',
+            title: 'Other',
+            viewUrl: 'local:resources/page/index.html'
+        });
+        const other = await host.openPage('dashboard');
+        assert.strictEqual(await other.pluginPage.call(`${viewType}::test.frontend.echo`, 'any'), 'frontend: any');
+    });
+
+    it('backs sidebar views with webview view providers', async () => {
+        plugin.registerWebviewViewProvider({
+            viewType: 'sidebar',
+            title: 'Sidebar',
+            viewUrl: 'local:resources/page/index.html'
+        });
+        plugin.updateWebviewView('sidebar', { description: 'idle' });
+        const view = host.cloudide.openWebviewView('sidebar');
+        assert.strictEqual(view.description, 'idle');
+        const page = await host.openPage('sidebar');
+        assert.strictEqual(await page.pluginPage.call('test.backend.echo', 'view'), 'backend: view');
+
+        assert.strictEqual(
+            await page.pluginPage.updateWebviewView({ title: 'Tasks', badge: { value: 3, tooltip: '3 tasks' } }),
+            true
+        );
+        assert.strictEqual(view.title, 'Tasks');
+        assert.deepStrictEqual(view.badge, { value: 3, tooltip: '3 tasks' });
+        plugin.updateWebviewView('sidebar', { badge: null });
+        assert.strictEqual(view.badge, undefined);
+
+        const visibilityChanges: [string, boolean][] = [];
+        plugin.onDidChangeWebviewViewVisibility((viewType, visible) => visibilityChanges.push([viewType, visible]));
+        const pageVisibility = new Promise<boolean>((resolve) => page.pluginPage.onDidChangeVisibility(resolve));
+        view.setVisible(false);
+        assert.strictEqual(await pageVisibility, false);
+        assert.strictEqual(page.pluginPage.visible, false);
+        assert.deepStrictEqual(visibilityChanges, [['sidebar', false]]);
+
+        // the provider stays registered when the user closes the view, and resolves it again when it is opened
+        view.dispose();
+        assert.strictEqual(plugin.container.has('sidebar'), false);
+        const reopenedView = host.cloudide.openWebviewView('sidebar');
+        assert.strictEqual(plugin.container.has('sidebar'), true);
+        assert.strictEqual(reopenedView.title, 'Tasks');
+        const reopenedPage = await host.openPage('sidebar', () => [require('./fixtures/test-frontend').TestFrontend]);
+        assert.strictEqual(await reopenedPage.pluginPage.call('test.backend.echo', 'reopened'), 'backend: reopened');
+        assert.strictEqual(await plugin.call('sidebar::test.frontend.echo', 'reopened'), 'frontend: reopened');
+        view.setVisible(true);
+        reopenedView.setVisible(false);
+        assert.deepStrictEqual(visibilityChanges, [
+            ['sidebar', false],
+            ['sidebar', false]
+        ]);
+    });
+});
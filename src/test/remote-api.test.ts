@@ -0,0 +1,47 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import {
+    TestBackendApi,
+    TestFrontendApi,
+    testBackendNamespace,
+    testFrontendNamespace
+} from './fixtures/test-contracts';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('remote API', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('calls through typed remote API on both sides', async () => {
+        const page = await host.openPage(viewType, () => [require('./fixtures/test-frontend').TestFrontend]);
+        const backendApi = page.pluginPage.remote<TestBackendApi>(testBackendNamespace);
+        const frontendApi = plugin.remote<TestFrontendApi>(viewType, testFrontendNamespace);
+        assert.strictEqual(await backendApi.echo('typed'), 'backend: typed');
+        assert.strictEqual(await frontendApi.echo('typed'), 'frontend: typed');
+    });
+});
@@ -0,0 +1,123 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin } from './test-setup';
+
+describe('remote bridge', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('relays messages of allowed remote pages through the bridge of the wrapper', async () => {
+        const dashboardOrigin = 'http://127.0.0.1:8080';
+        plugin.createWebviewPanel({
+            viewType: 'dashboard',
+            title: 'Dashboard',
+            viewUrl: `${dashboardOrigin}/index.html`,
+            remoteBridge: {}
+        });
+        const html = host.cloudide.findWebview('dashboard')?.html || '';
+        assert.ok(html.indexOf(`frame-src ${dashboardOrigin}`) >= 0);
+        const bridgeScript = /<script nonce="\w+">([\s\S]*?)<\/script>/.exec(html)?.[1] || '';
+
+        // run the bridge in a fake wrapper webview with the remote page in its iframe
+        class BridgeWindow {
+            parent: BridgeWindow = this;
+            readonly received: { data: any; targetOrigin: string }[] = [];
+            // installed by the bridge in the remote page
+            acquireCloudidePluginApi?: () => { getInstanceId(): string };
+            acquireVsCodeApi?: () => { getState(): any; setState(state: any): void; postMessage(message: any): void };
+            private readonly listeners: ((event: any) => void)[] = [];
+
+            constructor(private readonly deliver: (data: any) => void) {}
+
+            addEventListener(type: string, listener: (event: any) => void): void {
+                this.listeners.push(listener);
+            }
+
+            removeEventListener(type: string, listener: (event: any) => void): void {
+                this.listeners.splice(this.listeners.indexOf(listener), 1);
+            }
+
+            dispatch(event: any): void {
+                [...this.listeners].forEach((listener) => listener(event));
+            }
+
+            postMessage(data: any, targetOrigin: string): void {
+                this.received.push({ data, targetOrigin });
+                this.deliver(data);
+            }
+        }
+        let remoteOrigin = 'http://evil.example.com';
+        const wrapper: BridgeWindow = new BridgeWindow((data) =>
+            wrapper.dispatch({ data, origin: remoteOrigin, source: remote })
+        );
+        const remote: BridgeWindow = new BridgeWindow((data) =>
+            remote.dispatch({ data, origin: 'vscode-webview://dashboard', source: wrapper })
+        );
+        remote.parent = wrapper;
+        const posted: any[] = [];
+        const savedStates: any[] = [];
+        const webviewApi = {
+            postMessage: (m: any) => posted.push(m),
+            getState: () => ({ tab: 2 }),
+            setState: (state: any) => savedStates.push(state)
+        };
+        new Function('window', 'acquireVsCodeApi', 'document', bridgeScript)(wrapper, () => webviewApi, {
+            querySelector: () => ({ contentWindow: remote })
+        });
+        const { connectRemoteBridge } = require('../browser/remote-bridge');
+        await assert.rejects(connectRemoteBridge({ window: remote as unknown as Window, timeout: 10 }));
+
+        remoteOrigin = dashboardOrigin;
+        const data = await connectRemoteBridge({ window: remote as unknown as Window });
+        assert.strictEqual(data.viewType, 'dashboard');
+        // remote pages get neither the paths of the plugin nor the options of the webview
+        assert.strictEqual(data.extensionPath, undefined);
+        assert.strictEqual(data.webviewOptions, undefined);
+        assert.strictEqual(html.indexOf(extensionPath), -1);
+        assert.strictEqual(remote.acquireCloudidePluginApi?.().getInstanceId(), 'dashboard');
+        const vscodeApi = remote.acquireVsCodeApi?.();
+        assert.ok(vscodeApi);
+        assert.deepStrictEqual(vscodeApi.getState(), { tab: 2 });
+        vscodeApi.postMessage({ from: 'dashboard', to: 'backend', func: 'test.backend.echo' });
+        vscodeApi.postMessage({ from: 'main', to: 'backend', func: 'test.backend.echo' });
+        assert.deepStrictEqual(posted, [{ from: 'dashboard', to: 'backend', func: 'test.backend.echo' }]);
+        // only the page state is kept of what the remote page sets
+        vscodeApi.setState({ viewType: 'main', webviewOptions: { apiPermissions: ['*'] }, pageState: { tab: 3 } });
+        assert.deepStrictEqual(savedStates, [{ viewType: 'dashboard', pageState: { tab: 3 } }]);
+        // remote pages may call no API unless it is declared
+        const dashboard = plugin.container.get('dashboard');
+        assert.deepStrictEqual(dashboard && plugin.apiPermissions.getPermissions(dashboard.options), []);
+
+        wrapper.dispatch({ data: { from: 'backend', to: 'dashboard' }, origin: 'vscode-webview://dashboard' });
+        assert.deepStrictEqual(remote.received[remote.received.length - 1], {
+            data: { from: 'backend', to: 'dashboard' },
+            targetOrigin: dashboardOrigin
+        });
+    });
+});
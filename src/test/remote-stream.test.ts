@@ -0,0 +1,61 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import type { TestBackend } from './fixtures/test-backend';
+import { TestBackendApi, testBackendNamespace } from './fixtures/test-contracts';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('remote streams', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('streams results and progress to page', async () => {
+        const page = await host.openPage(viewType);
+        const { TestBackend } = host.require(require.resolve('./fixtures/test-backend'));
+        const backend = plugin.getBackend<TestBackend>(TestBackend);
+        const progress: number[] = [];
+        const values: number[] = [];
+        const backendApi = page.pluginPage.remote<TestBackendApi>(testBackendNamespace);
+        const stream = await backendApi.count((count) => progress.push(count));
+        for await (const value of stream) {
+            values.push(value);
+            if (value === 3) {
+                break;
+            }
+        }
+        assert.deepStrictEqual(values, [1, 2, 3]);
+        assert.deepStrictEqual(progress, [1, 2, 3]);
+        assert.strictEqual(backend?.closedStreams, 1);
+
+        // streams are closed when the page goes away
+        const iterator = (await page.pluginPage.call('test.backend.count', () => undefined))[Symbol.asyncIterator]();
+        assert.deepStrictEqual(await iterator.next(), { done: false, value: 1 });
+        host.cloudide.panels[0].dispose();
+        await new Promise((resolve) => setImmediate(resolve));
+        assert.strictEqual(backend?.closedStreams, 2);
+    });
+});
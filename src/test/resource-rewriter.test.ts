@@ -0,0 +1,113 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin } from './test-setup';
+
+describe('resource rewriter', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('rewrites the asset references of bundled pages', async () => {
+        const bundleDir = path.join(extensionPath, 'resources', 'bundle');
+        fs.mkdirSync(bundleDir, { recursive: true });
+        fs.writeFileSync(
+            path.join(bundleDir, 'index.html'),
+            `<html><head>
+                <script type="importmap">{"imports":{"vue":"./vendor/vue.js","lib/":"/assets/lib/"}}</script>
+                <link rel="modulepreload" href="/assets/vendor.js">
+                <style>@import "theme.css"; body { background: url('img/bg.png?v=1'); }</style>
+                <script type="module">import './httpClient.js'; import('/assets/lazy.js');</script>
+                <script type="module" src="/assets/index.js"></script>
+                <script type="module" src="assets/main.js"></script>
+                <link rel="stylesheet" href="/assets/style.css">
+            </head><body>
+                <img src="logo.png" srcset="logo.png 1x, logo@2x.png 2x" style="background: url(img/dot.svg)">
+                <a href="#top">top</a><img src="https://cdn.example.com/a.png"><img src="data:image/png;base64,AA==">
+                <img srcset="data:image/png;base64,AA== 1x,icon,v2.png 2x">
+            </body></html>`
+        );
+        // bundle files with root relative references, and files importing them, are loaded from rewritten copies
+        fs.mkdirSync(path.join(bundleDir, 'assets'), { recursive: true });
+        fs.writeFileSync(
+            path.join(bundleDir, 'assets', 'index.js'),
+            "import './util.js';\nimport('/assets/lazy.js');\nnew URL('/assets/icon.svg', import.meta.url);"
+        );
+        fs.writeFileSync(path.join(bundleDir, 'assets', 'util.js'), 'export const util = 1;');
+        fs.writeFileSync(path.join(bundleDir, 'assets', 'main.js'), "import './index.js';");
+        fs.writeFileSync(
+            path.join(bundleDir, 'assets', 'style.css'),
+            'body { background: url(/assets/bg.png); } @font-face { src: url(fonts/a.woff); }'
+        );
+        plugin.createWebviewPanel({
+            viewType: 'bundle',
+            title: 'Bundle',
+            viewUrl: 'local:resources/bundle/index.html'
+        });
+        const html = host.cloudide.findWebview('bundle')?.html || '';
+        const resource = (file: string) => `theia-resource:${path.join(bundleDir, file)}`;
+        const cacheDir = path.join(plugin.context.globalStorageUri.fsPath, 'page-bundles');
+        const copyPath = (file: string) => path.join(cacheDir, 'resources', 'bundle', file);
+        const nonce = /'nonce-(\w+)'/.exec(html)?.[1];
+        [
+            `{"imports":{"vue":"${resource('vendor/vue.js')}","lib/":"${resource('assets/lib')}/"}}`,
+            `href="${resource('assets/vendor.js')}"`,
+            `@import "${resource('theme.css')}"`,
+            `url('${resource('img/bg.png')}?v=1')`,
+            `import '${resource('httpClient.js')}'`,
+            `import('${resource('assets/lazy.js')}')`,
+            `srcset="${resource('logo.png')} 1x, ${resource('logo@2x.png')} 2x"`,
+            `srcset="data:image/png;base64,AA== 1x, ${resource('icon,v2.png')} 2x"`,
+            `style="background: url(${resource('img/dot.svg')})"`,
+            'href="#top"',
+            'src="https://cdn.example.com/a.png"',
+            'src="data:image/png;base64,AA=="',
+            `src="theia-resource:${copyPath('assets/index.js')}" nonce="${nonce}"`,
+            `src="theia-resource:${copyPath('assets/main.js')}" nonce="${nonce}"`,
+            `href="theia-resource:${copyPath('assets/style.css')}"`
+        ].forEach((expected) => assert.ok(html.indexOf(expected) >= 0, `${expected} not found in ${html}`));
+        assert.strictEqual(
+            fs.readFileSync(copyPath('assets/index.js'), 'utf8'),
+            `import '${resource('assets/util.js')}';\nimport('${resource('assets/lazy.js')}');\n` +
+                `new URL('${resource('assets/icon.svg')}', import.meta.url);`
+        );
+        assert.strictEqual(
+            fs.readFileSync(copyPath('assets/main.js'), 'utf8'),
+            `import 'theia-resource:${copyPath('assets/index.js')}';`
+        );
+        assert.strictEqual(
+            fs.readFileSync(copyPath('assets/style.css'), 'utf8'),
+            `body { background: url(${resource('assets/bg.png')}); } @font-face { src: url(${resource(
+                'assets/fonts/a.woff'
+            )}); }`
+        );
+        assert.ok(!fs.existsSync(copyPath('assets/util.js')));
+        fs.rmSync(cacheDir, { recursive: true });
+
+        const page = await host.openPage('bundle');
+        assert.strictEqual(page.pluginPage.toWebviewResource('resources/bundle/logo.png'), resource('logo.png'));
+    });
+});
@@ -0,0 +1,61 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin, viewType } from './test-setup';
+
+describe('shared stores', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('keeps stores of the plugin in sync with pages and persists them', async () => {
+        const store = plugin.createStore('tasks', { items: ['a'], filter: 'all' }, { persist: 'workspace' });
+        const page = await host.openPage(viewType);
+        const tasks = await page.pluginPage.useStore<{ items: string[]; filter?: string }>('tasks');
+        assert.deepStrictEqual(tasks.state, { items: ['a'], filter: 'all' });
+
+        const pageChange = new Promise<any>((resolve) => tasks.onDidChange(resolve));
+        store.setState((state) => ({ ...state, items: [...state.items, 'b'] }));
+        const event = await pageChange;
+        assert.deepStrictEqual(event.patch, [{ op: 'add', path: '/items/1', value: 'b' }]);
+        assert.deepStrictEqual(tasks.state, { items: ['a', 'b'], filter: 'all' });
+
+        await tasks.setState({ items: ['b'] });
+        assert.deepStrictEqual(tasks.state, { items: ['b'] });
+        assert.deepStrictEqual(store.state, { items: ['b'] });
+        assert.strictEqual(tasks.version, store.version);
+        assert.deepStrictEqual(host.context.workspaceState.get('codearts.store.tasks'), { items: ['b'] });
+
+        // a patch made against an old version is rejected instead of overwriting newer changes
+        const stalePatch = [{ op: 'replace', path: '/items', value: [] }];
+        const staleVersion = store.version - 1;
+        assert.strictEqual(
+            await page.pluginPage.call('plugin.store', viewType, 'patch', 'tasks', stalePatch, staleVersion),
+            undefined
+        );
+        assert.deepStrictEqual(store.state, { items: ['b'] });
+    });
+});
@@ -0,0 +1,68 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin } from './test-setup';
+
+describe('template engines', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('renders with registered template engines and caches compiled templates', () => {
+        const templatePath = path.join(extensionPath, 'resources', 'page', 'index.tpl');
+        fs.writeFileSync(templatePath, '<html><body>{{project}}</body></html>');
+        let compiled = 0;
+        plugin.registerTemplateEngine('mustache', {
+            compile: (template) => {
+                compiled++;
+                if (template.indexOf('{{}}') >= 0) {
+                    throw Object.assign(new Error('empty tag'), { line: 2 });
+                }
+                return (data) => template.replace('{{project}}', data.extData.project);
+            }
+        });
+        const options = {
+            viewType: 'templated',
+            title: 'Templated',
+            viewUrl: 'local:resources/page/index.tpl',
+            templateEngine: 'mustache',
+            extData: { project: 'demo' }
+        };
+        plugin.createWebviewPanel(options);
+        plugin.createWebviewPanel(options, true);
+        assert.ok((host.cloudide.findWebview('templated')?.html || '').indexOf('<body>demo</body>') >= 0);
+        assert.strictEqual(compiled, 1);
+
+        fs.writeFileSync(templatePath, '<html>\n{{}}</html>');
+        const modified = new Date(Date.now() + 10000);
+        fs.utimesSync(templatePath, modified, modified);
+        plugin.createWebviewPanel(options, true);
+        const html = host.cloudide.findWebview('templated')?.html || '';
+        assert.strictEqual(compiled, 2);
+        assert.ok(html.indexOf(`Failed to render ${templatePath}, line 2`) >= 0);
+        assert.ok(html.indexOf('empty tag') >= 0);
+    });
+});
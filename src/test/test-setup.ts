@@ -0,0 +1,59 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+
+export const viewType = 'main';
+
+/**
+ * Create the directory of the test plugin with its package.json, localization files and page.
+ * The caller removes the directory once its tests are done.
+ */
+export function createTestExtension(): string {
+    const extensionPath = fs.mkdtempSync(path.join(os.tmpdir(), 'codearts-core-'));
+    fs.mkdirSync(path.join(extensionPath, 'resources', 'page'), { recursive: true });
+    fs.writeFileSync(
+        path.join(extensionPath, 'package.json'),
+        JSON.stringify({
+            publisher: 'codearts',
+            name: 'test-plugin',
+            contributes: { commands: [{ command: 'dashboard.refresh', title: 'Dashboard: Refresh' }] },
+            codearts: { apiPermissions: { declared: ['window.showInformationMessage'] } }
+        })
+    );
+    fs.writeFileSync(
+        path.join(extensionPath, 'package.nls.json'),
+        JSON.stringify({
+            greeting: 'Hello {0}',
+            files: '{count, plural, =0 {no files} one {# file} other {# files}}',
+            folders: '{count, plural, one {# folder} other {# folders}}',
+            help: 'Help'
+        })
+    );
+    fs.writeFileSync(
+        path.join(extensionPath, 'package.nls.zh.json'),
+        JSON.stringify({ greeting: '你好 {0}', files: '{count, plural, other {# 个文件}}' })
+    );
+    fs.writeFileSync(
+        path.join(extensionPath, 'resources', 'page', 'index.html'),
+        '<html><head><script src="index.js"></script></head><body></body></html>'
+    );
+    return extensionPath;
+}
+
+/**
+ * Create a plugin with the test backend and open the test page of viewType in a webview panel.
+ */
+export function createTestPlugin(extensionPath: string): { host: TestHost; plugin: Plugin } {
+    const host = new TestHost({ extensionPath });
+    const plugin = host.createPlugin(() => [require('./fixtures/test-backend').TestBackend]);
+    plugin.createWebviewPanel({ viewType, title: 'Main', viewUrl: 'local:resources/page/index.html' });
+    return { host, plugin };
+}
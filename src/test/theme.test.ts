@@ -0,0 +1,55 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestHost } from '../testing/plugin-testing';
+import type { Plugin } from '../node/plugin-api';
+import { createTestExtension, createTestPlugin } from './test-setup';
+
+describe('theme', () => {
+    let extensionPath: string;
+    let host: TestHost;
+    let plugin: Plugin;
+
+    before(() => {
+        extensionPath = createTestExtension();
+    });
+
+    after(() => {
+        fs.rmSync(extensionPath, { recursive: true });
+    });
+
+    beforeEach(() => {
+        ({ host, plugin } = createTestPlugin(extensionPath));
+    });
+
+    afterEach(() => {
+        host.dispose();
+    });
+
+    it('passes the theme and both icons to pages', async () => {
+        plugin.createWebviewPanel({
+            viewType: 'themed',
+            title: 'Themed',
+            iconPath: { light: 'resources/light.svg', dark: 'resources/dark.svg' },
+            viewUrl: 'local:resources/page/index.html'
+        });
+        const panel = host.cloudide.panels.find((p) => p.viewType === 'themed');
+        assert.strictEqual(panel?.iconPath.dark.fsPath, path.join(extensionPath, 'resources', 'dark.svg'));
+        assert.ok((panel?.webview.html || '').indexOf('<html class="theme-light">') >= 0);
+
+        const page = await host.openPage('themed');
+        assert.strictEqual(page.pluginPage.getTheme().kind, 'light');
+        page.window.document.documentElement.style.setProperty('--theia-editor-background', ' #1e1e1e');
+        const themeChange = new Promise<any>((resolve) => page.pluginPage.onDidChangeTheme(resolve));
+        host.cloudide.setColorTheme(host.cloudide.ColorThemeKind.Dark);
+        assert.deepStrictEqual(await themeChange, { kind: 'dark', colors: { 'editor.background': '#1e1e1e' } });
+        assert.ok(page.window.document.documentElement.classList.contains('theme-dark'));
+        assert.ok(!page.window.document.documentElement.classList.contains('theme-light'));
+    });
+});
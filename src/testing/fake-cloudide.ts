@@ -0,0 +1,801 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/* eslint-disable @typescript-eslint/explicit-module-boundary-types */
+import * as os from 'os';
+import * as path from 'path';
+import * as v8 from 'v8';
+import { EventType } from '../common/plugin-common';
+
+export interface DisposableLike {
+    dispose(): any;
+}
+
+/**
+ * Minimal implementation of cloudide.Disposable.
+ */
+export class FakeDisposable {
+    constructor(private readonly callOnDispose: () => any) {}
+
+    static from(...disposables: DisposableLike[]): FakeDisposable {
+        return new FakeDisposable(() => disposables.forEach((disposable) => disposable.dispose()));
+    }
+
+    dispose(): any {
+        return this.callOnDispose();
+    }
+}
+
+/**
+ * Clone a message the way postMessage does and deliver it asynchronously.
+ */
+export function deliverMessage(message: any, handler: (message: any) => void): void {
+    const structuredClone = (global as any).structuredClone;
+    const cloned = structuredClone ? structuredClone(message) : v8.deserialize(v8.serialize(message));
+    setImmediate(() => handler(cloned));
+}
+
+/**
+ * Minimal implementation of cloudide.EventEmitter.
+ */
+export class FakeEventEmitter<T> {
+    private listeners: ((e: T) => any)[] = [];
+
+    readonly event = (listener: (e: T) => any, thisArgs?: any, disposables?: DisposableLike[]): DisposableLike => {
+        const boundListener = thisArgs ? listener.bind(thisArgs) : listener;
+        this.listeners.push(boundListener);
+        const disposable = {
+            dispose: () => {
+                const idx = this.listeners.indexOf(boundListener);
+                if (idx >= 0) {
+                    this.listeners.splice(idx, 1);
+                }
+            }
+        };
+        if (disposables) {
+            disposables.push(disposable);
+        }
+        return disposable;
+    };
+
+    fire(event: T): void {
+        [...this.listeners].forEach((listener) => listener(event));
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+/**
+ * Minimal implementation of cloudide.Uri.
+ */
+export class FakeUri {
+    private constructor(
+        readonly scheme: string,
+        readonly authority: string,
+        readonly path: string,
+        readonly query: string,
+        readonly fragment: string
+    ) {}
+
+    static file(fsPath: string): FakeUri {
+        let uriPath = fsPath.split(path.sep).join('/');
+        if (!uriPath.startsWith('/')) {
+            uriPath = `/${uriPath}`;
+        }
+        return new FakeUri('file', '', uriPath, '', '');
+    }
+
+    static parse(value: string): FakeUri {
+        const match = /^([a-zA-Z][\w+.-]*):(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/.exec(value);
+        if (!match) {
+            throw new Error(`invalid uri: ${value}`);
+        }
+        return new FakeUri(match[1], match[2] || '', match[3] || '', match[4] || '', match[5] || '');
+    }
+
+    static joinPath(base: FakeUri, ...pathSegments: string[]): FakeUri {
+        return base.with({ path: path.posix.join(base.path, ...pathSegments) });
+    }
+
+    get fsPath(): string {
+        return this.path;
+    }
+
+    with(change: { scheme?: string; authority?: string; path?: string; query?: string; fragment?: string }): FakeUri {
+        return new FakeUri(
+            change.scheme ?? this.scheme,
+            change.authority ?? this.authority,
+            change.path ?? this.path,
+            change.query ?? this.query,
+            change.fragment ?? this.fragment
+        );
+    }
+
+    toString(): string {
+        let uri = `${this.scheme}:`;
+        if (this.authority || this.scheme === 'file') {
+            uri += `//${this.authority}`;
+        }
+        uri += this.path;
+        if (this.query) {
+            uri += `?${this.query}`;
+        }
+        if (this.fragment) {
+            uri += `#${this.fragment}`;
+        }
+        return uri;
+    }
+
+    toJSON(): any {
+        return {
+            scheme: this.scheme,
+            authority: this.authority,
+            path: this.path,
+            query: this.query,
+            fragment: this.fragment
+        };
+    }
+}
+
+/**
+ * Output channel that keeps all lines in memory.
+ */
+export class FakeOutputChannel {
+    readonly lines: string[] = [];
+
+    constructor(readonly name: string) {}
+
+    append(value: string): void {
+        if (this.lines.length === 0) {
+            this.lines.push('');
+        }
+        this.lines[this.lines.length - 1] += value;
+    }
+
+    appendLine(value: string): void {
+        this.lines.push(value);
+    }
+
+    replace(value: string): void {
+        this.lines.length = 0;
+        this.lines.push(value);
+    }
+
+    clear(): void {
+        this.lines.length = 0;
+    }
+
+    show(): void {
+        // do nothing
+    }
+
+    hide(): void {
+        // do nothing
+    }
+
+    dispose(): void {
+        // do nothing
+    }
+}
+
+/**
+ * Webview whose messages are delivered to an in-memory page instead of a browser.
+ */
+export class FakeWebview {
+    options: any = {};
+
+    /**
+     * State set by the page with setState of the VS Code API, kept when the page is reloaded.
+     */
+    state: any;
+    readonly cspSource = 'theia-resource:';
+    private readonly onDidReceiveMessageEmitter = new FakeEventEmitter<any>();
+    readonly onDidReceiveMessage = this.onDidReceiveMessageEmitter.event;
+    private pageMessageHandler?: (message: any) => void;
+    private pageDisposeHandler?: () => void;
+
+    private _html = '';
+
+    constructor(readonly viewType: string) {}
+
+    get html(): string {
+        return this._html;
+    }
+
+    /**
+     * Replacing the html unloads the page, like the browser does, the next page is loaded with TestHost.openPage.
+     */
+    set html(html: string) {
+        this._html = html;
+        this.disconnectPage();
+    }
+
+    postMessage(message: any): Promise<boolean> {
+        const pageMessageHandler = this.pageMessageHandler;
+        if (!pageMessageHandler) {
+            return Promise.resolve(false);
+        }
+        deliverMessage(message, pageMessageHandler);
+        return Promise.resolve(true);
+    }
+
+    asWebviewUri(localResource: FakeUri): FakeUri {
+        return localResource.with({ scheme: 'theia-resource' });
+    }
+
+    /**
+     * Connect the page that is loaded into this webview.
+     * @param messageHandler receives messages posted by the plugin
+     * @param disposeHandler called when the webview is destroyed
+     */
+    connectPage(messageHandler: (message: any) => void, disposeHandler: () => void): void {
+        this.pageMessageHandler = messageHandler;
+        this.pageDisposeHandler = disposeHandler;
+    }
+
+    /**
+     * Deliver a message posted by the page to the plugin.
+     */
+    receiveMessage(message: any): void {
+        deliverMessage(message, (cloned) => this.onDidReceiveMessageEmitter.fire(cloned));
+    }
+
+    dispose(): void {
+        this.onDidReceiveMessageEmitter.dispose();
+        this.disconnectPage();
+    }
+
+    private disconnectPage(): void {
+        const pageDisposeHandler = this.pageDisposeHandler;
+        this.pageMessageHandler = undefined;
+        this.pageDisposeHandler = undefined;
+        if (pageDisposeHandler) {
+            pageDisposeHandler();
+        }
+    }
+}
+
+/**
+ * Webview panel created by window.createLightWebviewPanel.
+ */
+export class FakeWebviewPanel {
+    readonly webview: FakeWebview;
+    visible = true;
+    active = true;
+    viewColumn = 1;
+    revealCount = 0;
+    disposed = false;
+    private readonly onDidDisposeEmitter = new FakeEventEmitter<void>();
+    readonly onDidDispose = this.onDidDisposeEmitter.event;
+    private readonly onDidChangeViewStateEmitter = new FakeEventEmitter<any>();
+    readonly onDidChangeViewState = this.onDidChangeViewStateEmitter.event;
+
+    constructor(
+        readonly viewType: string,
+        public title: string,
+        readonly showOptions: any,
+        readonly options: any,
+        public iconPath?: any
+    ) {
+        this.webview = new FakeWebview(viewType);
+    }
+
+    reveal(viewColumn?: number): void {
+        this.revealCount++;
+        if (viewColumn !== undefined) {
+            this.viewColumn = viewColumn;
+        }
+    }
+
+    /**
+     * Change the visibility of the panel as if the user switched tabs.
+     */
+    setVisible(visible: boolean): void {
+        this.visible = visible;
+        this.active = visible;
+        this.onDidChangeViewStateEmitter.fire({ webviewPanel: this });
+    }
+
+    dispose(): void {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        this.onDidDisposeEmitter.fire();
+        this.webview.dispose();
+    }
+}
+
+/**
+ * Webview view resolved by a WebviewViewProvider, e.g. a dialog or a project wizard page.
+ */
+export class FakeWebviewView {
+    readonly webview: FakeWebview;
+    title?: string;
+    description?: string;
+    badge?: { value: number; tooltip: string };
+    visible = true;
+    disposed = false;
+    private readonly onDidDisposeEmitter = new FakeEventEmitter<void>();
+    readonly onDidDispose = this.onDidDisposeEmitter.event;
+    private readonly onDidChangeVisibilityEmitter = new FakeEventEmitter<void>();
+    readonly onDidChangeVisibility = this.onDidChangeVisibilityEmitter.event;
+
+    constructor(readonly viewType: string) {
+        this.webview = new FakeWebview(viewType);
+    }
+
+    show(): void {
+        this.setVisible(true);
+    }
+
+    setVisible(visible: boolean): void {
+        this.visible = visible;
+        this.onDidChangeVisibilityEmitter.fire();
+    }
+
+    dispose(): void {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        this.onDidDisposeEmitter.fire();
+        this.webview.dispose();
+    }
+}
+
+export class FakePosition {
+    constructor(readonly line: number, readonly character: number) {}
+}
+
+export class FakeRange {
+    constructor(readonly start: FakePosition, readonly end: FakePosition) {}
+}
+
+/**
+ * Workspace edit that only supports replacing text, applied with workspace.applyEdit.
+ */
+export class FakeWorkspaceEdit {
+    readonly edits: { uri: FakeUri; range: FakeRange; newText: string }[] = [];
+
+    replace(uri: FakeUri, range: FakeRange, newText: string): void {
+        this.edits.push({ uri, range, newText });
+    }
+
+    insert(uri: FakeUri, position: FakePosition, newText: string): void {
+        this.replace(uri, new FakeRange(position, position), newText);
+    }
+
+    delete(uri: FakeUri, range: FakeRange): void {
+        this.replace(uri, range, '');
+    }
+}
+
+/**
+ * Text document held in memory, created with FakeCloudide.createTextDocument.
+ * Edits and saves fire the events of the workspace like the IDE does.
+ */
+export class FakeTextDocument {
+    version = 1;
+    isDirty = false;
+    isClosed = false;
+    readonly isUntitled = false;
+    readonly eol = 1;
+    readonly uri: FakeUri;
+
+    /**
+     * Text of the document when it was last saved.
+     */
+    savedText: string;
+
+    constructor(
+        readonly fileName: string,
+        private text: string,
+        readonly languageId: string,
+        private readonly fireEvent: (eventType: string, event: any) => void
+    ) {
+        this.uri = FakeUri.file(fileName);
+        this.savedText = text;
+    }
+
+    get lineCount(): number {
+        return this.text.split('\n').length;
+    }
+
+    getText(range?: FakeRange): string {
+        return range ? this.text.substring(this.offsetAt(range.start), this.offsetAt(range.end)) : this.text;
+    }
+
+    positionAt(offset: number): FakePosition {
+        const before = this.text.substring(0, Math.max(0, Math.min(offset, this.text.length)));
+        const lines = before.split('\n');
+        return new FakePosition(lines.length - 1, lines[lines.length - 1].length);
+    }
+
+    offsetAt(position: FakePosition): number {
+        const lines = this.text.split('\n');
+        let offset = 0;
+        for (let i = 0; i < position.line && i < lines.length; i++) {
+            offset += lines[i].length + 1;
+        }
+        return Math.min(offset + position.character, this.text.length);
+    }
+
+    /**
+     * Replace text and fire workspace.onDidChangeTextDocument, as typing, undo or redo in the IDE would.
+     * @param reason 1 for undo, 2 for redo
+     */
+    edit(edits: { range: FakeRange; newText: string }[], reason?: number): void {
+        // changes are applied from the end, so that the offsets of each change refer to the text it is applied to
+        const changes = edits
+            .map((edit) => ({
+                range: edit.range,
+                rangeOffset: this.offsetAt(edit.range.start),
+                rangeLength: this.offsetAt(edit.range.end) - this.offsetAt(edit.range.start),
+                text: edit.newText
+            }))
+            .sort((a, b) => b.rangeOffset - a.rangeOffset);
+        changes.forEach((change) => {
+            this.text =
+                this.text.substring(0, change.rangeOffset) +
+                change.text +
+                this.text.substring(change.rangeOffset + change.rangeLength);
+        });
+        this.version++;
+        this.isDirty = this.text !== this.savedText;
+        this.fireEvent(EventType.WORKSPACE_ONDIDCHANGETEXTDOCUMENT, {
+            document: this,
+            contentChanges: changes,
+            reason
+        });
+    }
+
+    /**
+     * Replace the text with the saved text, as reverting the file in the IDE does.
+     */
+    revert(): void {
+        this.edit([
+            { range: new FakeRange(this.positionAt(0), this.positionAt(this.text.length)), newText: this.savedText }
+        ]);
+    }
+
+    async save(): Promise<boolean> {
+        this.savedText = this.text;
+        this.isDirty = false;
+        this.fireEvent(EventType.WORKSPACE_ONDIDSAVETEXTDOCUMENT, this);
+        return true;
+    }
+}
+
+/**
+ * Memento that keeps all values in memory.
+ */
+export class FakeMemento {
+    private readonly values: Map<string, any> = new Map();
+
+    keys(): readonly string[] {
+        return [...this.values.keys()];
+    }
+
+    get(key: string, defaultValue?: any): any {
+        return this.values.has(key) ? this.values.get(key) : defaultValue;
+    }
+
+    update(key: string, value: any): Promise<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, value);
+        }
+        return Promise.resolve();
+    }
+
+    setKeysForSync(): void {
+        // do nothing
+    }
+}
+
+export interface FakeMessage {
+    severity: 'info' | 'warning' | 'error';
+    message: string;
+    items: any[];
+}
+
+/**
+ * Fake implementation of the '@codearts/plugin' module.
+ * It covers the API used by the plugin core and records what the plugin did, so tests can assert on it.
+ */
+export class FakeCloudide {
+    readonly Uri = FakeUri;
+    readonly EventEmitter = FakeEventEmitter;
+    readonly Disposable = FakeDisposable;
+    readonly Position = FakePosition;
+    readonly Range = FakeRange;
+    readonly WorkspaceEdit = FakeWorkspaceEdit;
+    readonly ViewColumn = { Active: -1, Beside: -2, One: 1, Two: 2, Three: 3 };
+    readonly ExtensionMode = { Production: 1, Development: 2, Test: 3 };
+    readonly ColorThemeKind = { Light: 1, Dark: 2, HighContrast: 3, HighContrastLight: 4 };
+
+    readonly window: any;
+    readonly workspace: any;
+    readonly debug: any;
+    readonly languages: any;
+    readonly extensions: any;
+    readonly tasks: any;
+    readonly commands: any;
+    readonly env: any;
+
+    /**
+     * All webview panels created by the plugin, in creation order.
+     */
+    readonly panels: FakeWebviewPanel[] = [];
+
+    /**
+     * All webview views resolved by the plugin, in creation order.
+     */
+    readonly views: FakeWebviewView[] = [];
+
+    /**
+     * All output channels created by the plugin.
+     */
+    readonly outputChannels: FakeOutputChannel[] = [];
+
+    /**
+     * Messages shown by window.showInformationMessage, showWarningMessage and showErrorMessage.
+     */
+    readonly messages: FakeMessage[] = [];
+
+    /**
+     * Answer returned by the next message shown to the user, undefined means the message is dismissed.
+     */
+    messageResponse?: any;
+
+    private readonly emitters: Map<string, FakeEventEmitter<any>> = new Map();
+    private readonly registeredCommands: Map<string, (...args: any[]) => any> = new Map();
+    private readonly panelSerializers: Map<string, any> = new Map();
+    private readonly webviewViewProviders: Map<string, any> = new Map();
+    private readonly customEditorProviders: Map<string, any> = new Map();
+    private readonly executedCommands: { id: string; args: any[] }[] = [];
+    // commands of the IDE the fake implements
+    private readonly builtinCommands: Map<string, (...args: any[]) => any> = new Map([
+        [
+            'workbench.action.files.revert',
+            (uri?: FakeUri) =>
+                (this.workspace.textDocuments as FakeTextDocument[])
+                    .find((document) => document.uri.toString() === uri?.toString())
+                    ?.revert()
+        ]
+    ]);
+    private readonly colorThemeEmitter = new FakeEventEmitter<any>();
+
+    constructor() {
+        this.window = {
+            ...this.events('window'),
+            activeTextEditor: undefined,
+            visibleTextEditors: [],
+            activeColorTheme: { kind: 1 },
+            onDidChangeActiveColorTheme: this.colorThemeEmitter.event,
+            terminals: [],
+            createOutputChannel: (name: string) => {
+                const outputChannel = new FakeOutputChannel(name);
+                this.outputChannels.push(outputChannel);
+                return outputChannel;
+            },
+            createLightWebviewPanel: this.createWebviewPanel.bind(this),
+            createCloudWebviewPanel: this.createWebviewPanel.bind(this),
+            createWebviewPanel: this.createWebviewPanel.bind(this),
+            createWebviewViewDialog: (provider: any, dialogOptions: any) => {
+                const view = this.resolveWebviewView(dialogOptions?.viewType || '', provider);
+                return { dispose: () => view.dispose(), onDidDispose: view.onDidDispose };
+            },
+            registerProjectWizardProvider: (viewType: string, title: string, provider: any) => {
+                this.resolveWebviewView(viewType, provider);
+                return { dispose: () => undefined };
+            },
+            registerWebviewViewProvider: (viewType: string, provider: any) => {
+                this.webviewViewProviders.set(viewType, provider);
+                return { dispose: () => this.webviewViewProviders.delete(viewType) };
+            },
+            registerCustomEditorProvider: (viewType: string, provider: any) => {
+                this.customEditorProviders.set(viewType, provider);
+                return { dispose: () => this.customEditorProviders.delete(viewType) };
+            },
+            registerWebviewPanelSerializer: (viewType: string, serializer: any) => {
+                this.panelSerializers.set(viewType, serializer);
+                return { dispose: () => this.panelSerializers.delete(viewType) };
+            },
+            showInformationMessage: (message: string, ...items: any[]) => this.showMessage('info', message, items),
+            showWarningMessage: (message: string, ...items: any[]) => this.showMessage('warning', message, items),
+            showErrorMessage: (message: string, ...items: any[]) => this.showMessage('error', message, items)
+        };
+        this.workspace = {
+            ...this.events('workspace'),
+            workspaceFolders: undefined,
+            textDocuments: [],
+            applyEdit: async (edit: FakeWorkspaceEdit) => {
+                const documents: FakeTextDocument[] = this.workspace.textDocuments;
+                for (const document of documents) {
+                    const edits = edit.edits.filter((e) => e.uri.toString() === document.uri.toString());
+                    if (edits.length > 0) {
+                        document.edit(edits);
+                    }
+                }
+                return true;
+            },
+            getConfiguration: () => ({
+                get: (key: string, defaultValue?: any) => defaultValue,
+                has: () => false,
+                update: () => Promise.resolve()
+            })
+        };
+        this.debug = { ...this.events('debug'), activeDebugSession: undefined, breakpoints: [] };
+        this.languages = { ...this.events('languages'), getDiagnostics: () => [] };
+        this.extensions = { ...this.events('extensions'), all: [], getExtension: () => undefined };
+        this.tasks = { ...this.events('tasks'), taskExecutions: [] };
+        this.commands = {
+            registerCommand: (id: string, callback: (...args: any[]) => any, thisArg?: any) => {
+                this.registeredCommands.set(id, thisArg ? callback.bind(thisArg) : callback);
+                return { dispose: () => this.registeredCommands.delete(id) };
+            },
+            executeCommand: async (id: string, ...args: any[]) => {
+                this.executedCommands.push({ id, args });
+                const command = this.registeredCommands.get(id) || this.builtinCommands.get(id);
+                return command ? command(...args) : undefined;
+            },
+            getCommands: async () => [...this.registeredCommands.keys()]
+        };
+        this.env = { language: 'en', appName: 'CodeArts', uriScheme: 'codearts', machineId: 'test-machine' };
+    }
+
+    /**
+     * Fire an IDE event, e.g. fireEvent(EventType.WINDOW_ONDIDOPENTERMINAL, terminal).
+     * @param eventType event type defined in EventType or the event name like 'window.onDidOpenTerminal'
+     * @param event event object
+     */
+    fireEvent(eventType: string, event: any): void {
+        const emitter = this.emitters.get(eventType.replace(/^codearts\./, ''));
+        if (!emitter) {
+            throw new Error(`unknown event: ${eventType}`);
+        }
+        emitter.fire(event);
+    }
+
+    /**
+     * Return the commands executed through commands.executeCommand.
+     */
+    getExecutedCommands(): { id: string; args: any[] }[] {
+        return this.executedCommands;
+    }
+
+    /**
+     * Return the webview most recently created for viewType that is still alive.
+     */
+    findWebview(viewType: string): FakeWebview | undefined {
+        const owners: (FakeWebviewPanel | FakeWebviewView)[] = [...this.panels, ...this.views];
+        const owner = owners.reverse().find((owner) => owner.viewType === viewType && !owner.disposed);
+        return owner?.webview;
+    }
+
+    /**
+     * Revive a webview panel with the registered serializer as the IDE does after a restart.
+     * @param viewType view type of the panel
+     * @param state state of the webview before the restart, e.g. the state of the webview of a disposed TestHost
+     */
+    async revivePanel(viewType: string, state: any): Promise<FakeWebviewPanel> {
+        const serializer = this.panelSerializers.get(viewType);
+        if (!serializer) {
+            throw new Error(`no webview panel serializer registered for view type: ${viewType}`);
+        }
+        const panel = new FakeWebviewPanel(viewType, '', {}, { enableScripts: true });
+        panel.webview.state = state;
+        this.panels.push(panel);
+        await serializer.deserializeWebviewPanel(panel, state);
+        return panel;
+    }
+
+    /**
+     * Create a text document held in memory and add it to workspace.textDocuments.
+     */
+    createTextDocument(fileName: string, text: string, languageId = 'plaintext'): FakeTextDocument {
+        const document = new FakeTextDocument(fileName, text, languageId, this.fireEvent.bind(this));
+        this.workspace.textDocuments.push(document);
+        return document;
+    }
+
+    /**
+     * Open a document in a custom editor registered by the plugin, as the IDE does when the user opens the file.
+     * @param viewType view type of the custom editor
+     */
+    async openCustomEditor(viewType: string, document: FakeTextDocument): Promise<FakeWebviewPanel> {
+        const provider = this.customEditorProviders.get(viewType);
+        if (!provider) {
+            throw new Error(`no custom editor registered for view type: ${viewType}`);
+        }
+        const panel = new FakeWebviewPanel(viewType, path.basename(document.fileName), {}, { enableScripts: true });
+        this.panels.push(panel);
+        await provider.resolveCustomTextEditor(document, panel, { isCancellationRequested: false });
+        return panel;
+    }
+
+    /**
+     * Switch the color theme, as the user does in the IDE.
+     * @param kind value of ColorThemeKind, e.g. 2 for a dark theme
+     */
+    setColorTheme(kind: number): void {
+        this.window.activeColorTheme = { kind };
+        this.colorThemeEmitter.fire(this.window.activeColorTheme);
+    }
+
+    /**
+     * Open a webview view contributed by the plugin, as the IDE does when the user opens the view.
+     * @param viewType id of the view that a webview view provider is registered for
+     */
+    openWebviewView(viewType: string): FakeWebviewView {
+        const provider = this.webviewViewProviders.get(viewType);
+        if (!provider) {
+            throw new Error(`no webview view provider registered for view type: ${viewType}`);
+        }
+        return this.resolveWebviewView(viewType, provider);
+    }
+
+    /**
+     * Resolve a webview view provider as the IDE does when the view becomes visible.
+     */
+    resolveWebviewView(viewType: string, provider: any): FakeWebviewView {
+        const view = new FakeWebviewView(viewType);
+        this.views.push(view);
+        provider.resolveWebviewView(view, { state: undefined }, { isCancellationRequested: false });
+        return view;
+    }
+
+    private createWebviewPanel(viewType: string, title: string, showOptions: any, options: any): FakeWebviewPanel {
+        const panel = new FakeWebviewPanel(viewType, title, showOptions, options, showOptions?.iconPath);
+        this.panels.push(panel);
+        return panel;
+    }
+
+    private showMessage(severity: FakeMessage['severity'], message: string, items: any[]): Promise<any> {
+        this.messages.push({ severity, message, items });
+        const response = this.messageResponse;
+        this.messageResponse = undefined;
+        return Promise.resolve(response);
+    }
+
+    private events(moduleName: string): { [name: string]: any } {
+        const events: { [name: string]: any } = {};
+        Object.values(EventType).forEach((eventType) => {
+            const [, module, name] = eventType.split('.');
+            if (module === moduleName) {
+                const emitter = new FakeEventEmitter<any>();
+                this.emitters.set(`${module}.${name}`, emitter);
+                events[name] = emitter.event;
+            }
+        });
+        return events;
+    }
+}
+
+/**
+ * Create a plugin context for the plugin located at extensionPath.
+ */
+export function createExtensionContext(extensionPath: string, extensionId: string, extensionMode = 3): any {
+    const extensionUri = FakeUri.file(extensionPath);
+    return {
+        extensionPath,
+        extensionUri,
+        extensionMode,
+        extension: { id: extensionId, extensionPath, extensionUri, isActive: true, packageJSON: {} },
+        subscriptions: [],
+        globalState: new FakeMemento(),
+        workspaceState: new FakeMemento(),
+        logUri: FakeUri.file(path.join(os.tmpdir(), extensionId, 'logs')),
+        storageUri: undefined,
+        globalStorageUri: FakeUri.file(path.join(os.tmpdir(), extensionId, 'globalStorage')),
+        asAbsolutePath: (relativePath: string) => path.join(extensionPath, relativePath)
+    };
+}
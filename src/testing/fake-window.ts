@@ -0,0 +1,163 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { deliverMessage } from './fake-cloudide';
+
+type Listener = (event: any) => void;
+
+/**
+ * Minimal event target shared by the fake window and document.
+ */
+class FakeEventTarget {
+    private readonly listeners: Map<string, Listener[]> = new Map();
+
+    addEventListener(type: string, listener: Listener): void {
+        const listeners = this.listeners.get(type);
+        if (listeners) {
+            listeners.push(listener);
+        } else {
+            this.listeners.set(type, [listener]);
+        }
+    }
+
+    removeEventListener(type: string, listener: Listener): void {
+        const listeners = this.listeners.get(type);
+        if (listeners && listeners.indexOf(listener) >= 0) {
+            listeners.splice(listeners.indexOf(listener), 1);
+        }
+    }
+
+    dispatchEvent(event: { type: string; [key: string]: any }): boolean {
+        const listeners = this.listeners.get(event.type);
+        if (listeners) {
+            [...listeners].forEach((listener) => listener(event));
+        }
+        return true;
+    }
+}
+
+/**
+ * Inline style of an element, e.g. holding the CSS variables the IDE sets for the theme.
+ */
+export class FakeStyle {
+    private readonly properties: Map<string, string> = new Map();
+
+    get length(): number {
+        return this.properties.size;
+    }
+
+    item(index: number): string {
+        return [...this.properties.keys()][index] || '';
+    }
+
+    getPropertyValue(name: string): string {
+        return this.properties.get(name) || '';
+    }
+
+    setProperty(name: string, value: string): void {
+        this.properties.set(name, value);
+    }
+}
+
+export class FakeClassList {
+    private readonly classes: Set<string> = new Set();
+
+    add(...names: string[]): void {
+        names.forEach((name) => this.classes.add(name));
+    }
+
+    remove(...names: string[]): void {
+        names.forEach((name) => this.classes.delete(name));
+    }
+
+    contains(name: string): boolean {
+        return this.classes.has(name);
+    }
+}
+
+export class FakeElement {
+    readonly classList = new FakeClassList();
+    readonly style = new FakeStyle();
+}
+
+/**
+ * Document of the fake page, it is always loaded.
+ */
+export class FakeDocument extends FakeEventTarget {
+    readonly readyState = 'complete';
+    readonly documentElement = new FakeElement();
+}
+
+/**
+ * Console that records the messages logged by the page.
+ */
+export class FakeConsole {
+    readonly messages: { method: string; args: any[] }[] = [];
+
+    debug(...args: any[]): void {
+        this.messages.push({ method: 'debug', args });
+    }
+
+    log(...args: any[]): void {
+        this.messages.push({ method: 'log', args });
+    }
+
+    info(...args: any[]): void {
+        this.messages.push({ method: 'info', args });
+    }
+
+    warn(...args: any[]): void {
+        this.messages.push({ method: 'warn', args });
+    }
+
+    error(...args: any[]): void {
+        this.messages.push({ method: 'error', args });
+    }
+}
+
+/**
+ * The subset of the browser window used by PluginPage.
+ */
+export class FakePageWindow extends FakeEventTarget {
+    readonly document = new FakeDocument();
+    readonly parent: FakePageWindow = this;
+    onunload: ((event: any) => any) | null = null;
+
+    /**
+     * Console of the page, messages are kept here instead of mixing with the output of the tests.
+     */
+    readonly console = new FakeConsole();
+    unloaded = false;
+
+    /**
+     * Deliver a message to the 'message' listeners of the window, the same way window.postMessage does.
+     */
+    postMessage(message: any): void {
+        if (this.unloaded) {
+            return;
+        }
+        deliverMessage(message, (data) => {
+            if (!this.unloaded) {
+                this.dispatchEvent({ type: 'message', data });
+            }
+        });
+    }
+
+    /**
+     * Unload the page, as the browser does when the webview is destroyed.
+     */
+    unload(): void {
+        if (this.unloaded) {
+            return;
+        }
+        this.unloaded = true;
+        const event = { type: 'unload' };
+        if (this.onunload) {
+            this.onunload(event);
+        }
+        this.dispatchEvent(event);
+    }
+}
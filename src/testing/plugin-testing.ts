@@ -0,0 +1,328 @@
+/********************************************************************************
+ * Copyright (C) 2023. Huawei Technologies Co., Ltd. All rights reserved.
+ * SPDX-License-Identifier: MIT
+ ********************************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/* eslint-disable @typescript-eslint/no-var-requires */
+import * as path from 'path';
+import Module = require('module');
+import type { Plugin } from '../node/plugin-api';
+import type { PluginPage } from '../browser/plugin-api';
+import { PluginApiData, WebviewOptions } from '../common/plugin-common';
+import { FakeCloudide, FakeWebview, createExtensionContext } from './fake-cloudide';
+import { FakePageWindow } from './fake-window';
+
+type BackendClasses = NonNullable<Parameters<typeof Plugin.create>[2]>;
+type FrontendClasses = Parameters<typeof PluginPage.create>[0];
+
+const nodePluginApiPath = require.resolve('../node/plugin-api');
+const browserPluginApiPath = require.resolve('../browser/plugin-api');
+const messagingPath = require.resolve('@cloudide/messaging');
+const packageRoot = path.resolve(__dirname, '..');
+
+/**
+ * Modules owned by a ModuleScope, they are only visible in the scope that loaded them.
+ */
+const scopedModules: Set<string> = new Set();
+let activeScope: ModuleScope | undefined;
+
+// resolve modules provided by the host, e.g. '@codearts/plugin', to the module registered in the active scope
+const moduleInternals = Module as any;
+const originalResolveFilename = moduleInternals._resolveFilename;
+moduleInternals._resolveFilename = function (this: any, request: string, ...args: any[]): string {
+    if (activeScope && activeScope.hasVirtualModule(request)) {
+        return ModuleScope.virtualModuleId(request);
+    }
+    return originalResolveFilename.call(this, request, ...args);
+};
+
+/**
+ * Each side of the plugin, the backend and every page, runs in its own ModuleScope.
+ * Messaging, Plugin and PluginPage are singletons, the scope gives each side a private copy of them
+ * and of every module that is first required inside the scope.
+ */
+class ModuleScope {
+    private readonly modules: Map<string, NodeModule> = new Map();
+
+    constructor(virtualModules: Map<string, any> = new Map()) {
+        virtualModules.forEach((exports, request) => {
+            const id = ModuleScope.virtualModuleId(request);
+            const virtualModule = new Module(id);
+            virtualModule.exports = exports;
+            virtualModule.loaded = true;
+            this.modules.set(id, virtualModule);
+        });
+    }
+
+    static virtualModuleId(request: string): string {
+        return `codearts-testing:${request}`;
+    }
+
+    hasVirtualModule(request: string): boolean {
+        return this.modules.has(ModuleScope.virtualModuleId(request));
+    }
+
+    /**
+     * Run the function with the module cache of this scope.
+     */
+    run<T>(func: () => T): T {
+        const cache = require.cache;
+        const evicted: Map<string, NodeModule | undefined> = new Map();
+        Object.keys(cache).forEach((id) => {
+            if (scopedModules.has(id) || this.isScopable(id)) {
+                evicted.set(id, cache[id]);
+                delete cache[id];
+            }
+        });
+        this.modules.forEach((scopedModule, id) => {
+            cache[id] = scopedModule;
+        });
+        const loadedModules = new Set(Object.keys(cache));
+        const previousScope = activeScope;
+        activeScope = this;
+        try {
+            return func();
+        } finally {
+            activeScope = previousScope;
+            Object.keys(cache).forEach((id) => {
+                if (this.modules.has(id) || (!loadedModules.has(id) && this.isScopable(id))) {
+                    this.modules.set(id, cache[id] as NodeModule);
+                    scopedModules.add(id);
+                    delete cache[id];
+                }
+            });
+            evicted.forEach((evictedModule, id) => {
+                cache[id] = evictedModule;
+            });
+        }
+    }
+
+    /**
+     * Plugin core modules, messaging and modules outside node_modules are private to a scope.
+     */
+    private isScopable(id: string): boolean {
+        if (id === messagingPath) {
+            return true;
+        }
+        if (id.startsWith(packageRoot)) {
+            return !id.startsWith(__dirname);
+        }
+        return id.split(path.sep).indexOf('node_modules') < 0;
+    }
+}
+
+/**
+ * Run the function with the global variables set, restore them afterwards.
+ */
+function withGlobals<T>(globals: { [name: string]: any }, func: () => T): T {
+    const globalObject = global as any;
+    const previous: { [name: string]: any } = {};
+    Object.keys(globals).forEach((name) => {
+        previous[name] = globalObject[name];
+        globalObject[name] = globals[name];
+    });
+    try {
+        return func();
+    } finally {
+        Object.keys(previous).forEach((name) => {
+            if (previous[name] === undefined) {
+                delete globalObject[name];
+            } else {
+                globalObject[name] = previous[name];
+            }
+        });
+    }
+}
+
+/**
+ * Create the object returned by acquireCloudidePluginApi, the same as the script injected by renderHtml.
+ */
+function createCloudidePluginApi(data: PluginApiData) {
+    let acquired = false;
+    return () => {
+        if (acquired) {
+            throw new Error('An instance of the CloudIDE Plugin API has already been acquired');
+        }
+        acquired = true;
+        return Object.freeze({
+            getViewType: () => data.viewType,
+            getInstanceId: () => data.instanceId || data.viewType,
+            getExtData: () => data.extData,
+            getI18n: () => data.i18n,
+            getExtensionPath: () => data.extensionPath,
+            getWebviewOptions: () => data.webviewOptions,
+            getThemeKind: () => data.themeKind,
+            getResourceBaseUri: () => data.resourceBaseUri
+        });
+    };
+}
+
+export interface TestHostOptions {
+    /**
+     * Root directory of the plugin under test, the package.json and page resources are loaded from here.
+     * Defaults to the current working directory.
+     */
+    extensionPath?: string;
+
+    /**
+     * Identifier of the plugin, used as the name of the output channel.
+     */
+    extensionId?: string;
+}
+
+/**
+ * A page loaded into a webview of the test host.
+ */
+export class TestPage {
+    readonly window: FakePageWindow = new FakePageWindow();
+    readonly pluginPage: PluginPage;
+
+    /**
+     * Calls the plugin made to this page, in the order they are received, e.g. { func: 'plugin.page.onEvent', args }.
+     */
+    readonly receivedCalls: { func: string; args: any[] }[] = [];
+    private readonly scope: ModuleScope = new ModuleScope();
+
+    constructor(readonly webview: FakeWebview, data: PluginApiData, loadFrontends?: () => FrontendClasses) {
+        const vscodeApi = {
+            postMessage: (message: any) => this.webview.receiveMessage(message),
+            setState: (newState: any) => {
+                this.webview.state = newState;
+                return newState;
+            },
+            getState: () => this.webview.state
+        };
+        this.webview.connectPage(
+            (message) => {
+                // calls are addressed to a page by its instance id, or to all pages with '*'
+                const instanceId = data.instanceId || data.viewType;
+                if (message && !message.notify && (message.to === '*' || message.to === instanceId)) {
+                    this.receivedCalls.push({ func: message.func.split('::').pop(), args: message.args || [] });
+                }
+                this.window.postMessage(message);
+            },
+            () => this.window.unload()
+        );
+        const globals = {
+            window: this.window,
+            // referenced by the decorator metadata of PluginPageContext
+            Window: FakePageWindow,
+            acquireVsCodeApi: () => vscodeApi,
+            acquireCloudidePluginApi: createCloudidePluginApi(data)
+        };
+        this.pluginPage = this.scope.run(() =>
+            withGlobals(globals, () => {
+                const frontends = loadFrontends ? loadFrontends() : [];
+                const { PluginPage } = require(browserPluginApiPath);
+                return PluginPage.create(frontends);
+            })
+        );
+    }
+
+    /**
+     * Require a module with the module cache of this page,
+     * e.g. to get the instance of a frontend class with pluginPage.getFrontend().
+     * @param id absolute module id, e.g. require.resolve('./my-frontend')
+     */
+    require(id: string): any {
+        return this.scope.run(() => require(id));
+    }
+
+    /**
+     * Unload the page as the browser does when the webview is destroyed.
+     */
+    close(): void {
+        this.window.unload();
+    }
+}
+
+/**
+ * Runs a plugin backend and its pages together in-process, without an IDE.
+ * The '@codearts/plugin' module is replaced with a FakeCloudide and pages talk to the backend through an in-memory bridge.
+ *
+ * Backend and frontend classes must be required inside the loader functions passed to createPlugin and openPage,
+ * so that they are bound to the messaging instance of their own side. Import them only as types elsewhere.
+ *
+ * @example
+ * ```
+ *     const host = new TestHost({ extensionPath: path.join(__dirname, 'fixture') });
+ *     const plugin = host.createPlugin(() => [require('./my-backend').MyBackend]);
+ *     plugin.createWebviewPanel({ viewType: 'main', title: 'Main', viewUrl: 'local:resources/page/index.html' });
+ *     const page = await host.openPage('main', () => [require('./my-frontend').MyFrontend]);
+ *     const result = await page.pluginPage.call('myBackend.doSomething', 'arg');
+ *     host.dispose();
+ * ```
+ */
+export class TestHost {
+    readonly cloudide: FakeCloudide = new FakeCloudide();
+    readonly context: any;
+    readonly pages: TestPage[] = [];
+    private readonly backendScope: ModuleScope;
+    private plugin?: Plugin;
+
+    constructor(opts: TestHostOptions = {}) {
+        const extensionPath = opts.extensionPath || process.cwd();
+        this.context = createExtensionContext(extensionPath, opts.extensionId || 'codearts.test-plugin');
+        this.backendScope = new ModuleScope(new Map([['@codearts/plugin', this.cloudide]]));
+    }
+
+    /**
+     * Create the plugin with the backend classes returned by loadBackends.
+     * @param loadBackends function that requires and returns the backend classes
+     * @param opts plugin main page options, create a webview panel when plugin start
+     */
+    createPlugin(loadBackends: () => BackendClasses, opts?: WebviewOptions): Plugin {
+        if (this.plugin) {
+            throw new Error('plugin has already been created');
+        }
+        const plugin: Plugin = this.backendScope.run(() => {
+            const backends = loadBackends();
+            const { Plugin } = require(nodePluginApiPath);
+            return Plugin.create(this.context, opts, backends);
+        });
+        this.plugin = plugin;
+        return plugin;
+    }
+
+    /**
+     * Load a page into the webview created for viewType and wait until all frontends are running.
+     * @param viewType view type of a webview panel, dialog or wizard page created by the plugin,
+     *   or the instance id of one of the pages of the view type
+     * @param loadFrontends function that requires and returns the frontend classes
+     */
+    async openPage(viewType: string, loadFrontends?: () => FrontendClasses): Promise<TestPage> {
+        const plugin = this.plugin;
+        const container = plugin?.container.get(viewType);
+        const webview = container?.webview as FakeWebview | undefined;
+        if (!container || !webview) {
+            throw new Error(`no webview has been created for view type: ${viewType}`);
+        }
+        const data = container.getPluginApiData(container.options.viewType, container.options.extData);
+        const page = new TestPage(webview, data, loadFrontends);
+        this.pages.push(page);
+        await container.pageInitialized.promise;
+        // frontends run after the page receives the response of onPageInit
+        await page.pluginPage.whenStarted();
+        return page;
+    }
+
+    /**
+     * Require a module with the module cache of the backend.
+     * @param id absolute module id, e.g. require.resolve('./my-backend')
+     */
+    require(id: string): any {
+        return this.backendScope.run(() => require(id));
+    }
+
+    /**
+     * Stop the plugin and unload all pages.
+     */
+    dispose(): void {
+        this.plugin?.stop();
+        this.pages.forEach((page) => page.close());
+    }
+}
+
+export * from './fake-cloudide';
+export * from './fake-window';